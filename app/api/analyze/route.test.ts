@@ -0,0 +1,143 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getQuota } from '@/app/ratelimit';
+import { POST } from './route';
+
+// A stand-in for a self-hosted model server, or for an internal service someone points the local provider at
+let server: Server;
+let host: string;
+let handle: (path: string) => { status: number; body: string; headers?: Record<string, string> };
+const requests: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    requests.push(request.url || '');
+    const { status, body, headers } = handle(request.url || '');
+    response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    response.end(body);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const analyze = async (baseUrl: string) => {
+  const response = await POST(new NextRequest('http://localhost/api/analyze', {
+    method: 'POST',
+    body: JSON.stringify({ provider: 'local', baseUrl, model: 'llava', images: ['data:image/png;base64,AAAA'] })
+  }));
+  return { status: response.status, body: await response.json() };
+};
+
+const completion = (content: string) => JSON.stringify({ choices: [{ message: { content } }] });
+
+describe('POST /api/analyze with the local provider', () => {
+  it('is turned off unless LOCAL_PROVIDER_HOSTS is set', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', '');
+    const { status, body } = await analyze(`http://${host}/v1`);
+
+    expect(status).toBe(400);
+    expect(body.error).toContain('LOCAL_PROVIDER_HOSTS');
+    expect(requests).toEqual([]);
+  });
+
+  it('calls hosts on the allowlist', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', host);
+    handle = () => ({ status: 200, body: completion('All values are normal.') });
+    const { status, body } = await analyze(`http://${host}/v1`);
+
+    expect(status).toBe(200);
+    expect(body.result).toMatchObject({ text: 'All values are normal.', provider: 'local', model: 'llava' });
+    expect(requests).toEqual(['/v1/chat/completions']);
+  });
+
+  it('rejects hosts that are not on the allowlist', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', 'gpu-box:11434');
+    const { status } = await analyze(`http://${host}/v1`);
+
+    expect(status).toBe(400);
+    expect(requests).toEqual([]);
+  });
+
+  it('rejects private and metadata addresses that are only allowed by "*"', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', '*');
+    for (const baseUrl of [`http://${host}/v1`, 'http://localhost/v1', 'http://169.254.169.254/latest', 'http://[::1]/v1', 'http://2130706433/v1']) {
+      const { status, body } = await analyze(baseUrl);
+      expect(status).toBe(400);
+      expect(body.error).toContain('private network');
+    }
+    expect(requests).toEqual([]);
+  });
+
+  it('does not follow redirects', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', host);
+    handle = path => path === '/v1/chat/completions'
+      ? { status: 307, body: '', headers: { Location: `http://${host}/internal` } }
+      : { status: 200, body: completion('internal') };
+    const { status } = await analyze(`http://${host}/v1`);
+
+    expect(status).toBe(502);
+    expect(requests).toEqual(['/v1/chat/completions']);
+  });
+
+  it('does not pass the server\'s responses on to the client', async () => {
+    vi.stubEnv('LOCAL_PROVIDER_HOSTS', host);
+    handle = () => ({ status: 500, body: JSON.stringify({ error: { message: 'secret internal detail' } }) });
+    const failed = await analyze(`http://${host}/v1`);
+
+    expect(failed.status).toBe(502);
+    expect(failed.body.error).toBe('The local server responded with HTTP 500');
+
+    handle = () => ({ status: 200, body: '<html>secret internal page</html>' });
+    const notJson = await analyze(`http://${host}/v1`);
+
+    expect(notJson.status).toBe(502);
+    expect(notJson.body.error).not.toContain('secret');
+  });
+});
+
+describe('POST /api/analyze on the server\'s key', () => {
+  const analyzeWithServerKey = (ip: string) => POST(new NextRequest('http://localhost/api/analyze', {
+    method: 'POST',
+    headers: { 'x-real-ip': ip },
+    body: JSON.stringify({ provider: 'gemini', images: ['data:image/png;base64,AAAA'] })
+  }));
+
+  beforeEach(() => {
+    vi.stubEnv('GOOGLE_GEMINI_API_KEY', 'server-key');
+    vi.stubEnv('RATE_LIMIT_IP_HEADER', 'x-real-ip');
+  });
+
+  it('gives the quota back when the provider fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{}', { status: 503 })));
+    const response = await analyzeWithServerKey('203.0.113.20');
+
+    expect(response.status).toBe(502);
+    expect(await getQuota(['ip:203.0.113.20'])).toMatchObject({ remaining: 2 });
+  });
+
+  it('keeps the quota spent on answered requests', async () => {
+    const answer = { candidates: [{ content: { parts: [{ text: 'All values are normal.' }] } }] };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(JSON.stringify(answer))));
+    const response = await analyzeWithServerKey('203.0.113.21');
+
+    expect(response.status).toBe(200);
+    expect(await getQuota(['ip:203.0.113.21'])).toMatchObject({ remaining: 1 });
+  });
+});
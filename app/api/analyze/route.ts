@@ -1,10 +1,21 @@
-import { AnalysisRequest, LLMProvider } from '@/app/types';
+import { getProvider, getProviderLabel, isProvider } from '@/app/providers';
+import { checkCustomEndpoint } from '@/app/providers/endpoint';
+import { AnalysisError, ERROR_STATUS, toFailure } from '@/app/providers/errors';
+import { getRetryDelay, isRetryable, MAX_RETRIES, parseRetryAfter, wait } from '@/app/providers/retry';
+import { AnalysisErrorBody, AnalysisRequest, AnalysisResult, AnalysisStreamEvent, ChatMessage, ComparisonReport, LLMProvider, PatientProfile, ProviderAttempt, ProviderTarget } from '@/app/types';
+import { BIOMARKER_SCHEMA, extractBiomarkers, normalizeBiomarker } from '@/app/utils/biomarkers';
+import { validateChatMessages } from '@/app/utils/chat';
+import { COMPARISON_SCHEMA, extractChanges, validateComparisonReports } from '@/app/utils/comparison';
+import { extractProfileNotes, formatProfile, normalizeProfile, PROFILE_NOTES_SCHEMA } from '@/app/utils/profile';
+import { encodeSSE, readSSE } from '@/app/utils/sse';
+import { consumeQuota, formatDuration, refundQuota, usesServerKey } from '@/app/ratelimit';
+import { attachClientToken, ClientIdentity, identifyClient } from '@/app/ratelimit/client';
 import { NextRequest, NextResponse } from 'next/server';
 
 // Prompt template for blood test analysis
 const ANALYSIS_PROMPT = `
 You are a medical expert analyzing a blood test result. 
-Examine the image of the blood test results and provide a detailed analysis including:
+Examine the images of the blood test results (one per page, in order) and provide a detailed analysis including:
 
 1. A summary of the test results
 2. Identification of any abnormal values and their significance
@@ -12,242 +23,463 @@ Examine the image of the blood test results and provide a detailed analysis incl
 4. General recommendations (NOT medical advice)
 
 Present this information in a clear, organized format.
+
+After the analysis, list every value on the report in a single \`\`\`json code block
+that matches this JSON schema:
+${JSON.stringify(BIOMARKER_SCHEMA)}
+
+Use "high" or "low" for the flag only when the value falls outside its reference range, otherwise "normal".
+`;
+
+// Prompt template for comparing an earlier and a later blood test
+const COMPARISON_PROMPT = `
+You are a medical expert comparing two blood test results from the same person, an earlier report (A) and a later report (B).
+Each report is given either as images of the printed results or as values already extracted from it.
+
+Provide:
+
+1. A short summary of how the results changed between the two reports
+2. Which values improved and which worsened, and why that matters
+3. Values that moved into or out of their reference range
+4. General recommendations (NOT medical advice)
+
+Present this information in a clear, organized format.
+
+After the narrative, list every value that appears in both reports in a single \`\`\`json code block
+that matches this JSON schema:
+${JSON.stringify(COMPARISON_SCHEMA)}
+
+"before" is the value in report A and "after" the value in report B. Use "same" for the direction only when the values are equal.
+Use "unclear" for the assessment when a change is neither clearly better nor worse.
+`;
+
+// Sent with the latest question of a follow-up conversation
+const FOLLOW_UP_PROMPT = `
+The user has a follow-up question about your analysis above.
+Answer it in clear markdown, based on the report and your analysis, without another JSON block.
+If the question can't be answered from the report, say so. This is NOT medical advice.
+`;
+
+// Added when the user has filled in a patient profile
+const PROFILE_PROMPT = `
+Patient profile (use it to pick the reference ranges and interpretation that apply to this person):
+`;
+
+const PROFILE_NOTES_PROMPT = `
+Add a "profileNotes" array to the same JSON object, with an entry for each profile field that changed how you interpreted a value,
+matching this JSON schema:
+${JSON.stringify(PROFILE_NOTES_SCHEMA)}
 `;
 
-const getApiEndpoint = (provider: LLMProvider) => {
-  switch (provider) {
-    case 'gemini':
-      return 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent';
-    case 'openai':
-      return 'https://api.openai.com/v1/chat/completions';
-    case 'claude':
-      return 'https://api.anthropic.com/v1/messages';
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+const buildProfileSection = (profile?: PatientProfile) => {
+  return profile ? `\n${PROFILE_PROMPT}${formatProfile(profile)}\n${PROFILE_NOTES_PROMPT}` : '';
+};
+
+// Build the full prompt from the template, the patient profile, the PDF text layer and the user's context
+const buildPrompt = (reportText?: string, contextText?: string, profile?: PatientProfile) => {
+  let prompt = ANALYSIS_PROMPT + buildProfileSection(profile);
+
+  if (reportText) {
+    prompt += `\n\nText extracted from the uploaded report (use it to confirm values that are hard to read in the image):\n${reportText}`;
   }
+  if (contextText) {
+    prompt += `\n\nAdditional context provided by user: ${contextText}`;
+  }
+
+  return prompt;
 };
 
-const prepareGeminiRequest = (imageBase64: string, contextText?: string, apiKey?: string) => {
-  const apiKeyToUse = apiKey || process.env.GOOGLE_GEMINI_API_KEY;
-  if (!apiKeyToUse) {
-    throw new Error('No Gemini API key provided');
-  }
-
-  // Extract base64 data without the prefix (e.g., data:image/jpeg;base64,)
-  const base64Data = imageBase64.split(',')[1];
-  
-  const prompt = contextText 
-    ? `${ANALYSIS_PROMPT}\n\nAdditional context provided by user: ${contextText}`
-    : ANALYSIS_PROMPT;
-
-  return {
-    url: `${getApiEndpoint('gemini')}?key=${apiKeyToUse}`,
-    options: {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: prompt },
-              {
-                inline_data: {
-                  mime_type: 'image/jpeg',
-                  data: base64Data
-                }
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 2048,
-        }
-      })
+// Build the comparison prompt, and the images of both reports in order
+const buildComparisonPrompt = (reports: ComparisonReport[], contextText?: string, profile?: PatientProfile) => {
+  let prompt = COMPARISON_PROMPT + buildProfileSection(profile);
+  const images: string[] = [];
+
+  reports.forEach((report, index) => {
+    const name = index === 0 ? 'A' : 'B';
+    const date = report.date ? ` (${new Date(report.date).toISOString().split('T')[0]})` : '';
+    prompt += `\n\nReport ${name}: ${report.label}${date}`;
+
+    if (report.images && report.images.length > 0) {
+      prompt += `\nImages ${images.length + 1} to ${images.length + report.images.length} are the pages of report ${name}.`;
+      images.push(...report.images);
+      if (report.reportText) {
+        prompt += `\nText extracted from report ${name}:\n${report.reportText}`;
+      }
+    } else {
+      prompt += `\nValues extracted from report ${name}:\n${JSON.stringify(report.biomarkers)}`;
     }
+  });
+
+  if (contextText) {
+    prompt += `\n\nAdditional context provided by user: ${contextText}`;
+  }
+
+  return { prompt, images };
+};
+
+// The turns after the original prompt, with the instructions added to the latest question
+const buildFollowUpHistory = (messages: ChatMessage[]): ChatMessage[] => {
+  const question = messages[messages.length - 1];
+  return [
+    ...messages.slice(0, -1),
+    { role: 'user', content: `${FOLLOW_UP_PROMPT}\nQuestion: ${question.content}` }
+  ];
+};
+
+// How long a provider gets to start answering before the call counts as timed out
+const RESPONSE_TIMEOUT_MS = 120 * 1000;
+
+// Prompt, images and conversation to send for either kind of request
+const buildProviderInput = (request: AnalysisRequest) => {
+  const { mode = 'single', images, reports, reportText, contextText, messages } = request;
+  const profile = normalizeProfile(request.profile);
+  const history = messages !== undefined ? buildFollowUpHistory(validateChatMessages(messages)) : undefined;
+
+  if (mode === 'compare') {
+    return { ...buildComparisonPrompt(validateComparisonReports(reports), contextText, profile), history };
+  }
+
+  // A saved analysis has no images left, its values travel in the prior answer
+  const hasImages = Array.isArray(images) && images.length > 0;
+  if (!hasImages && !history) {
+    throw new Error('No image provided');
+  }
+
+  return { prompt: buildPrompt(reportText, contextText, profile), images: hasImages ? images : [], history };
+};
+
+// The provider call that answered, and the ones that failed before it
+interface ProviderAnswer {
+  response: Response;
+  provider: LLMProvider;
+  model: string;
+  attempts: ProviderAttempt[];
+}
+
+// Turn the model's full output into the result returned to the client
+const createResult = (request: AnalysisRequest, answer: ProviderAnswer, output: string): AnalysisResult => {
+  const { mode = 'single', messages } = request;
+  const source = {
+    provider: answer.provider,
+    model: answer.model,
+    ...(answer.attempts.length > 0 && { attempts: answer.attempts }),
+    timestamp: Date.now()
   };
+
+  // A follow-up answer is plain text
+  if (messages) {
+    return { mode, text: output.trim(), biomarkers: [], ...source };
+  }
+
+  const profile = normalizeProfile(request.profile);
+  const profileFields = profile ? { profile, profileNotes: extractProfileNotes(output) } : {};
+
+  if (mode === 'compare') {
+    const { text, changes } = extractChanges(output);
+    return { mode, text, biomarkers: [], changes, ...profileFields, ...source };
+  }
+
+  const { text, biomarkers } = extractBiomarkers(output);
+  return { mode, text, biomarkers: biomarkers.map(biomarker => normalizeBiomarker(biomarker, profile)), ...profileFields, ...source };
 };
 
-const prepareOpenAIRequest = (imageBase64: string, contextText?: string, apiKey?: string) => {
-  if (!apiKey) {
-    throw new Error('No OpenAI API key provided');
-  }
-
-  const prompt = contextText 
-    ? `${ANALYSIS_PROMPT}\n\nAdditional context provided by user: ${contextText}`
-    : ANALYSIS_PROMPT;
-
-  return {
-    url: getApiEndpoint('openai'),
-    options: {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-vision-preview',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: imageBase64
-                }
-              }
-            ]
-          }
-        ],
-        max_tokens: 2048,
-        temperature: 0.1,
-      })
+// Send the request to the provider, throws if it responds with an error
+async function callProvider(request: AnalysisRequest, userApiKey?: string, signal?: AbortSignal) {
+  const { provider, baseUrl, model, stream = false } = request;
+  const { prompt, images, history } = buildProviderInput(request);
+
+  const adapter = getProvider(provider);
+  const apiKey = userApiKey || (adapter.serverKeyEnv ? process.env[adapter.serverKeyEnv] : undefined);
+  const resolvedModel = model?.trim() || adapter.defaultModel;
+  if (!resolvedModel) {
+    throw new AnalysisError('invalid_request', `No model selected for ${adapter.label}`, provider);
+  }
+
+  const fetchConfig = adapter.buildRequest({
+    images,
+    prompt,
+    history,
+    apiKey,
+    baseUrl,
+    model: resolvedModel,
+    stream
+  });
+  if (adapter.capabilities.customBaseUrl) {
+    await checkCustomEndpoint(fetchConfig.url, provider);
+  }
+
+  // The timeout only covers waiting for the response, a long stream may keep going after it
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, RESPONSE_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(fetchConfig.url, { ...fetchConfig.options, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener('abort', abort);
+    if (signal?.aborted) throw error;
+    if (timedOut) {
+      throw new AnalysisError('timeout', `${adapter.label} did not answer within ${RESPONSE_TIMEOUT_MS / 1000} seconds`, provider);
     }
-  };
+    // fetch rejects with a TypeError when the connection fails
+    throw new AnalysisError('upstream_outage', `Could not reach ${adapter.label}: ${error instanceof Error ? error.message : 'connection failed'}`, provider);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    const { code, message } = adapter.parseError(response.status, errorText);
+    throw new AnalysisError(
+      code,
+      message,
+      provider,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+
+  return { response, model: resolvedModel };
+}
+
+// The provider first, then each fallback the user has their own key or endpoint for
+const getTargets = (request: AnalysisRequest, getUserApiKey: (provider: LLMProvider) => string | undefined): ProviderTarget[] => {
+  const { provider, baseUrl, model, fallbacks = [] } = request;
+  const targets: ProviderTarget[] = [{ provider, baseUrl, model }];
+
+  for (const fallback of Array.isArray(fallbacks) ? fallbacks : []) {
+    if (!isProvider(fallback?.provider) || targets.some(target => target.provider === fallback.provider)) continue;
+
+    // Fallbacks never spend the server's keys, so they don't need their own quota
+    const adapter = getProvider(fallback.provider);
+    if (adapter.capabilities.customBaseUrl ? !fallback.baseUrl : !getUserApiKey(fallback.provider)) continue;
+    if (request.stream && !adapter.capabilities.streaming) continue;
+
+    targets.push({ provider: fallback.provider, baseUrl: fallback.baseUrl, model: fallback.model });
+  }
+
+  return targets;
 };
 
-const prepareClaudeRequest = (imageBase64: string, contextText?: string, apiKey?: string) => {
-  if (!apiKey) {
-    throw new Error('No Claude API key provided');
-  }
-
-  // Extract base64 data without the prefix
-  const base64Data = imageBase64.split(',')[1];
-  const mimeType = imageBase64.split(';')[0].split(':')[1];
-
-  const prompt = contextText 
-    ? `${ANALYSIS_PROMPT}\n\nAdditional context provided by user: ${contextText}`
-    : ANALYSIS_PROMPT;
-
-  return {
-    url: getApiEndpoint('claude'),
-    options: {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 2048,
-        temperature: 0.1,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt
-              },
-              {
-                type: 'image',
-                source: {
-                  type: 'base64',
-                  media_type: mimeType,
-                  data: base64Data
-                }
-              }
-            ]
-          }
-        ]
-      })
+// Call each provider in turn, retrying rate limits and server errors with backoff, until one answers
+async function callWithFallback(
+  request: AnalysisRequest,
+  getUserApiKey: (provider: LLMProvider) => string | undefined,
+  signal?: AbortSignal
+): Promise<ProviderAnswer> {
+  const maxRetries = Math.min(MAX_RETRIES, Math.max(0, Math.floor(Number(request.maxRetries) || 0)));
+  const attempts: ProviderAttempt[] = [];
+
+  for (const target of getTargets(request, getUserApiKey)) {
+    for (let retry = 0; ; retry++) {
+      try {
+        const { response, model } = await callProvider({ ...request, ...target }, getUserApiKey(target.provider), signal);
+        return { response, provider: target.provider, model, attempts };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+
+        if (isRetryable(error) && retry < maxRetries) {
+          console.warn(`${target.provider} failed, retrying:`, error);
+          await wait(getRetryDelay(error, retry), signal);
+          continue;
+        }
+
+        console.error(`${target.provider} failed:`, error);
+        const { code, message } = toFailure(error);
+        attempts.push({
+          provider: target.provider,
+          model: target.model?.trim() || getProvider(target.provider).defaultModel,
+          error: message,
+          code,
+          status: error instanceof AnalysisError ? error.status : undefined,
+          retries: retry
+        });
+        break;
+      }
     }
+  }
+
+  // The first provider's failure is what the user asked for, so it decides the code
+  const [first] = attempts;
+  if (attempts.length === 1) {
+    throw new AnalysisError(first.code, first.error, first.provider, first.status);
+  }
+  throw new AnalysisError(
+    first.code,
+    `No provider could answer. ${attempts.map(attempt => `${getProviderLabel(attempt.provider)}: ${attempt.error}`).join('; ')}`,
+    first.provider,
+    first.status
+  );
+}
+
+// The JSON error response for a failed analysis, with the status that matches its code
+const errorResponse = (error: unknown, provider?: LLMProvider) => {
+  const { code, message } = toFailure(error);
+  const body: AnalysisErrorBody = {
+    error: message,
+    code,
+    provider: error instanceof AnalysisError ? error.provider ?? provider : provider
   };
+  return NextResponse.json(body, { status: ERROR_STATUS[code] });
 };
 
-async function analyzeBloodTest(request: AnalysisRequest, userApiKey?: string) {
+// Check the request can be sent before spending quota on it
+const validateRequest = (request: AnalysisRequest) => {
   try {
-    const { imageBase64, contextText, provider } = request;
+    buildProviderInput(request);
+  } catch (error) {
+    throw new AnalysisError('invalid_request', error instanceof Error ? error.message : 'Invalid request');
+  }
+};
 
-    if (!imageBase64) {
-      throw new Error('No image provided');
-    }
+async function analyzeBloodTest(request: AnalysisRequest, getUserApiKey: (provider: LLMProvider) => string | undefined, signal?: AbortSignal) {
+  const answer = await callWithFallback({ ...request, stream: false }, getUserApiKey, signal);
+  let data: unknown;
+  try {
+    data = await answer.response.json();
+  } catch {
+    // The parser's message quotes the start of the body
+    throw new AnalysisError('upstream_outage', `${getProviderLabel(answer.provider)} did not answer with JSON`, answer.provider);
+  }
 
-    let fetchConfig;
-    
-    switch (provider) {
-      case 'gemini':
-        fetchConfig = prepareGeminiRequest(imageBase64, contextText, userApiKey);
-        break;
-      case 'openai':
-        fetchConfig = prepareOpenAIRequest(imageBase64, contextText, userApiKey);
-        break;
-      case 'claude':
-        fetchConfig = prepareClaudeRequest(imageBase64, contextText, userApiKey);
-        break;
-      default:
-        throw new Error(`Unsupported provider: ${provider}`);
-    }
+  try {
+    return createResult(request, answer, getProvider(answer.provider).parseResponse(data));
+  } catch (error) {
+    // Refusals are thrown while reading the answer, before the provider is known to the error
+    const { code, message } = toFailure(error);
+    throw new AnalysisError(code, message, answer.provider);
+  }
+}
 
-    const response = await fetch(fetchConfig.url, fetchConfig.options);
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error (${response.status}): ${errorText}`);
-    }
+// Start a streamed analysis and re-emit the provider's chunks as AnalysisStreamEvents
+async function streamBloodTest(
+  request: AnalysisRequest,
+  getUserApiKey: (provider: LLMProvider) => string | undefined,
+  signal?: AbortSignal,
+  onFailure?: () => Promise<void>
+) {
+  const upstream = new AbortController();
+  signal?.addEventListener('abort', () => upstream.abort());
 
-    const data = await response.json();
-    let resultText = '';
+  const answer = await callWithFallback({ ...request, stream: true }, getUserApiKey, upstream.signal);
+  const adapter = getProvider(answer.provider);
 
-    // Extract the result based on the provider's response format
-    switch (provider) {
-      case 'gemini':
-        resultText = data.candidates[0].content.parts[0].text;
-        break;
-      case 'openai':
-        resultText = data.choices[0].message.content;
-        break;
-      case 'claude':
-        resultText = data.content[0].text;
-        break;
-    }
+  if (!answer.response.body) {
+    throw new AnalysisError('upstream_outage', 'Provider returned an empty stream', answer.provider);
+  }
+  const body = answer.response.body;
+
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AnalysisStreamEvent) => controller.enqueue(encoder.encode(encodeSSE(event)));
+      let output = '';
 
-    return {
-      success: true,
-      result: {
-        text: resultText,
-        provider,
-        timestamp: Date.now()
+      try {
+        for await (const data of readSSE(body)) {
+          const delta = adapter.parseStreamChunk(data);
+          if (delta) {
+            output += delta;
+            send({ type: 'delta', text: delta });
+          }
+        }
+
+        send({ type: 'done', result: createResult(request, answer, output) });
+      } catch (error) {
+        if (!upstream.signal.aborted) {
+          console.error('Streaming error:', error);
+          const { code, message } = toFailure(error);
+          send({ type: 'error', error: message, code, provider: answer.provider });
+          await onFailure?.();
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
       }
-    };
+    },
+    cancel() {
+      upstream.abort();
+    }
+  });
+}
+
+// Give back the quota of a request that failed, without hiding the failure if that goes wrong too
+const refund = async (keys: string[]) => {
+  try {
+    await refundQuota(keys);
   } catch (error) {
-    console.error('Analysis error:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    console.error('Quota refund failed:', error);
   }
-}
+};
 
 export async function POST(request: NextRequest) {
+  let requestData: AnalysisRequest;
   try {
-    const requestData = await request.json() as AnalysisRequest;
-    const userApiKey = requestData.provider === 'gemini' 
-      ? request.headers.get('x-gemini-key') 
-      : requestData.provider === 'openai'
-        ? request.headers.get('x-openai-key')
-        : request.headers.get('x-claude-key');
-    
-    const result = await analyzeBloodTest(requestData, userApiKey || undefined);
+    requestData = await request.json() as AnalysisRequest;
+  } catch {
+    return errorResponse(new AnalysisError('invalid_request', 'The request body is not valid JSON'));
+  }
+
+  if (!isProvider(requestData.provider)) {
+    return errorResponse(new AnalysisError('invalid_request', `Unsupported provider: ${requestData.provider}`));
+  }
+
+  let identity: ClientIdentity = { keys: [] };
+  let charged: string[] = []; // keys the request was counted under
+  try {
+    validateRequest(requestData);
+
+    const adapter = getProvider(requestData.provider);
+    const getUserApiKey = (provider: LLMProvider) => request.headers.get(getProvider(provider).keyHeader) || undefined;
+    const userApiKey = getUserApiKey(requestData.provider);
+
+    // Requests on the server's key count against the client's quota
+    if (usesServerKey(adapter, userApiKey)) {
+      identity = identifyClient(request);
+      const { allowed, status } = await consumeQuota(identity.keys);
+
+      if (!allowed) {
+        const waitMs = Math.max(0, (status.resetAt ?? Date.now()) - Date.now());
+        const body: AnalysisErrorBody = {
+          error: `You've reached the limit of ${status.limit} analyses. Try again in ${formatDuration(waitMs)} or add your own API key in settings.`,
+          code: 'quota_exhausted',
+          quota: status
+        };
+        return attachClientToken(NextResponse.json(
+          body,
+          { status: 429, headers: { 'Retry-After': String(Math.max(1, Math.ceil(waitMs / 1000))) } }
+        ), identity);
+      }
+      charged = identity.keys;
+    }
     
-    if (!result.success) {
-      return NextResponse.json(
-        { error: result.error },
-        { status: 400 }
-      );
+    if (requestData.stream && adapter.capabilities.streaming) {
+      const stream = await streamBloodTest(requestData, getUserApiKey, request.signal, () => refund(charged));
+
+      return attachClientToken(new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive'
+        }
+      }), identity);
     }
 
-    return NextResponse.json(result);
+    const result = await analyzeBloodTest(requestData, getUserApiKey, request.signal);
+
+    return attachClientToken(NextResponse.json({ success: true, result }), identity);
   } catch (error) {
-    console.error('API route error:', error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
-      { status: 500 }
-    );
+    console.error('Analysis error:', error);
+    await refund(charged);
+    return attachClientToken(errorResponse(error, requestData.provider), identity);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,33 @@
+import { getProvider, isProvider } from '@/app/providers';
+import { getQuota, getRateLimitConfig, usesServerKey } from '@/app/ratelimit';
+import { attachClientToken, identifyClient } from '@/app/ratelimit/client';
+import { QuotaStatus } from '@/app/types';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Remaining requests on the server's key for this client. Callers with their own key aren't limited.
+export async function GET(request: NextRequest) {
+  try {
+    const provider = request.nextUrl.searchParams.get('provider');
+    if (!isProvider(provider)) {
+      return NextResponse.json(
+        { error: `Unsupported provider: ${provider}` },
+        { status: 400 }
+      );
+    }
+
+    if (!usesServerKey(getProvider(provider))) {
+      const { limit, windowMs } = getRateLimitConfig();
+      const status: QuotaStatus = { limited: false, limit, windowMs, remaining: limit, resetAt: null };
+      return NextResponse.json(status);
+    }
+
+    const identity = identifyClient(request);
+    return attachClientToken(NextResponse.json(await getQuota(identity.keys)), identity);
+  } catch (error) {
+    console.error('Quota route error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { FaArchive, FaFileCsv, FaFileDownload, FaFileImport } from 'react-icons/fa';
+import { DuplicateStrategy, exportBackup, exportBiomarkersCsv, importBackup, readBackup, ReadBackup } from '../utils/backup';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/security';
+
+interface BackupSettingsProps {
+  onImported: () => void; // settings or profiles may have changed
+}
+
+const DUPLICATE_OPTIONS: { value: DuplicateStrategy; label: string }[] = [
+  { value: 'skip', label: 'Keep the ones already here' },
+  { value: 'replace', label: 'Replace them with the backup' },
+  { value: 'keep', label: 'Keep both' }
+];
+
+const inputClassName = 'w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200';
+
+const saveFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Export and import of everything stored in this browser; acts immediately, independent of "Save Settings"
+export default function BackupSettings({ onImported }: BackupSettingsProps) {
+  const [includeKeys, setIncludeKeys] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [pending, setPending] = useState<ReadBackup | null>(null);
+  const [duplicates, setDuplicates] = useState<DuplicateStrategy>('skip');
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Backup error:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = () => run(async () => {
+    saveFile(await exportBackup(includeKeys ? exportPassphrase : undefined), `bloodq-backup-${today()}.json`);
+    setExportPassphrase('');
+  });
+
+  const handleExportCsv = () => run(async () => {
+    saveFile(await exportBiomarkersCsv(), `bloodq-values-${today()}.csv`);
+  });
+
+  const handleFile = (file?: File) => run(async () => {
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+    setPending(await readBackup(file));
+  });
+
+  const handleImport = () => run(async () => {
+    if (!pending) return;
+    const summary = await importBackup(pending.archive, {
+      duplicates,
+      restoreSettings: restoreSettings && !pending.profileExport,
+      passphrase: importPassphrase || undefined
+    });
+
+    const parts = [`${summary.added} added`];
+    if (summary.replaced > 0) parts.push(`${summary.replaced} replaced`);
+    if (summary.skipped > 0) parts.push(`${summary.skipped} already here`);
+    if (pending.invalid > 0) parts.push(`${pending.invalid} unreadable`);
+    setNotice(`Analyses: ${parts.join(', ')}. Profiles: ${summary.profiles} added or updated.${summary.apiKeys > 0 ? ` API keys: ${summary.apiKeys} restored.` : ''}`);
+    setPending(null);
+    setImportPassphrase('');
+    onImported();
+  });
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+        <FaArchive className="text-highlight" /> Backup &amp; Restore
+      </h3>
+
+      <div className="space-y-3">
+        <p className="text-xs text-text-secondary">
+          Saves all profiles, analyses and settings to a file you can import in another browser.
+          API keys are left out unless you protect them with a passphrase.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={includeKeys}
+            onChange={(e) => setIncludeKeys(e.target.checked)}
+            className="accent-highlight"
+          />
+          Include API keys, encrypted
+        </label>
+        {includeKeys && (
+          <input
+            type="password"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+            placeholder={`Passphrase for the keys, at least ${MIN_PASSPHRASE_LENGTH} characters`}
+            className={inputClassName}
+          />
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <motion.button
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            onClick={handleExport}
+            disabled={isWorking || (includeKeys && !exportPassphrase)}
+            className="px-4 py-2 rounded bg-gray-800 text-white text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            <FaFileDownload size={12} /> Export backup
+          </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            onClick={handleExportCsv}
+            disabled={isWorking}
+            className="px-4 py-2 rounded bg-gray-800 text-white text-sm flex items-center gap-2 disabled:opacity-50"
+            title="Every extracted value, one row each, for spreadsheets"
+          >
+            <FaFileCsv size={12} /> Export values as CSV
+          </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+            className="px-4 py-2 rounded bg-gray-800 text-white text-sm flex items-center gap-2 disabled:opacity-50"
+          >
+            <FaFileImport size={12} /> Import backup
+          </motion.button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+
+        {pending && (
+          <div className="p-3 bg-gray-900 rounded border border-gray-800 space-y-3 text-sm">
+            <p>
+              Backup from {new Date(pending.archive.exportedAt).toLocaleString()} with {pending.archive.analyses.length} analyses
+              and {pending.archive.settings.profiles?.length || 0} profiles.
+              {pending.invalid > 0 && <span className="text-yellow-300"> {pending.invalid} analyses can&apos;t be read and will be left out.</span>}
+            </p>
+
+            <div>
+              <label htmlFor="backup-duplicates" className="block text-text-secondary mb-1">
+                Analyses and profiles that are already here
+              </label>
+              <select
+                id="backup-duplicates"
+                value={duplicates}
+                onChange={(e) => setDuplicates(e.target.value as DuplicateStrategy)}
+                className={inputClassName}
+              >
+                {DUPLICATE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+
+            {!pending.profileExport && (
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={restoreSettings}
+                  onChange={(e) => setRestoreSettings(e.target.checked)}
+                  className="accent-highlight"
+                />
+                Also restore provider, model, retry and unit settings
+              </label>
+            )}
+
+            {pending.archive.apiKeys && (
+              <input
+                type="password"
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+                placeholder="Passphrase for the API keys, leave empty to skip them"
+                className={inputClassName}
+              />
+            )}
+
+            <div className="flex gap-2">
+              <motion.button
+                whileHover={{ scale: 1.03 }}
+                whileTap={{ scale: 0.97 }}
+                onClick={handleImport}
+                disabled={isWorking}
+                className="px-4 py-2 rounded text-sm btn-primary glow-btn disabled:opacity-50"
+              >
+                {isWorking ? 'Importing...' : 'Import'}
+              </motion.button>
+              <button
+                onClick={() => setPending(null)}
+                className="px-4 py-2 rounded bg-gray-800 text-white text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {notice && (
+        <div className="mt-3 p-3 bg-green-900/50 border border-green-800 rounded-md text-green-200 text-sm">
+          {notice}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { FaArrowUp, FaArrowDown, FaExclamationTriangle } from 'react-icons/fa';
+import { Biomarker, RangeCheck, ReferenceRange, UnitSystem } from '../types';
+import { convertBiomarker } from '../utils/conversion';
+
+interface BiomarkerTableProps {
+  biomarkers: Biomarker[];
+  unitSystem?: UnitSystem; // unset shows the units as reported
+}
+
+const flagColors = {
+  high: 'text-red-400',
+  low: 'text-blue-400',
+  normal: ''
+};
+
+export const formatRange = (range?: ReferenceRange) => {
+  if (!range) return '-';
+  if (range.text) return range.text;
+  if (range.low !== undefined && range.high !== undefined) return `${range.low} - ${range.high}`;
+  if (range.low !== undefined) return `> ${range.low}`;
+  if (range.high !== undefined) return `< ${range.high}`;
+  return '-';
+};
+
+// Explains a flag that doesn't match the range, shown next to the model's flag
+const describeMismatch = (check: RangeCheck) => {
+  const range = check.source === 'report' ? "the report's range" : 'the typical range for this profile';
+  return `Compared with ${range} (${formatRange(check.range)}) this value is ${check.flag}`;
+};
+
+export default function BiomarkerTable({ biomarkers, unitSystem }: BiomarkerTableProps) {
+  if (biomarkers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-800">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-900 text-text-secondary">
+          <tr>
+            <th className="text-left p-2 font-medium">Test</th>
+            <th className="text-left p-2 font-medium">Value</th>
+            <th className="text-left p-2 font-medium">Reference Range</th>
+            <th className="text-left p-2 font-medium">Flag</th>
+          </tr>
+        </thead>
+        <tbody>
+          {biomarkers.map((reported, index) => {
+            const biomarker = convertBiomarker(reported, unitSystem);
+            return (
+              <tr key={`${biomarker.name}-${index}`} className="border-t border-gray-800">
+                <td className="p-2">{biomarker.name}</td>
+                <td
+                  className={`p-2 font-mono ${flagColors[biomarker.flag]}`}
+                  title={biomarker !== reported ? `Reported as ${reported.value} ${reported.unit}` : undefined}
+                >
+                  {biomarker.value} {biomarker.unit}
+                </td>
+                <td className="p-2 text-text-secondary">
+                  {!biomarker.referenceRange && biomarker.rangeCheck?.source === 'reference' ? (
+                    <span className="italic" title="Not on the report: a typical range for the profile's sex and age">
+                      {formatRange(biomarker.rangeCheck.range)} (typical)
+                    </span>
+                  ) : (
+                    formatRange(biomarker.referenceRange)
+                  )}
+                </td>
+                <td className="p-2">
+                  <span className="flex items-center gap-2">
+                    {biomarker.flag === 'high' && (
+                      <span className="flex items-center gap-1 text-red-400"><FaArrowUp size={10} /> High</span>
+                    )}
+                    {biomarker.flag === 'low' && (
+                      <span className="flex items-center gap-1 text-blue-400"><FaArrowDown size={10} /> Low</span>
+                    )}
+                    {biomarker.flag === 'normal' && (
+                      <span className="text-green-400">Normal</span>
+                    )}
+                    {biomarker.rangeCheck && biomarker.rangeCheck.flag !== biomarker.flag && (
+                      <FaExclamationTriangle className="text-yellow-400" size={12} title={describeMismatch(biomarker.rangeCheck)} />
+                    )}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { FaPaperPlane, FaStop, FaComments } from 'react-icons/fa';
+import ReactMarkdown from 'react-markdown';
+import { AnalysisInput, AnalysisResult, ChatMessage } from '../types';
+import { requestAnalysis } from '../utils/analyze';
+import { describeError } from '../utils/errors';
+import { formatPriorAnswer, MAX_CHAT_MESSAGES } from '../utils/chat';
+import { getPreferredProvider, isProviderConfigured } from '../utils/settings';
+import { getProviderLabel } from '../providers';
+
+interface ChatPanelProps {
+  result: AnalysisResult;
+  input: AnalysisInput; // what the analysis was made from, sent again with every question
+}
+
+export default function ChatPanel({ result, input }: ChatPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [question, setQuestion] = useState('');
+  const [pendingReply, setPendingReply] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const isSending = pendingReply !== null;
+  // The prior answer is the first message of the conversation sent to the API
+  const isFull = messages.length + 2 > MAX_CHAT_MESSAGES;
+
+  const handleSend = async () => {
+    const content = question.trim();
+    if (!content || isSending) return;
+
+    // Ask the model that wrote the answer; imported results don't say which one, so they go to the preferred provider
+    const provider = result.provider ?? getPreferredProvider();
+    const model = result.provider ? result.model : undefined;
+    if (!isProviderConfigured(provider)) {
+      setError(`Set the server URL and model for ${getProviderLabel(provider)} in settings first`);
+      return;
+    }
+
+    const conversation: ChatMessage[] = [...messages, { role: 'user', content }];
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setMessages(conversation);
+    setQuestion('');
+    setError(null);
+    setPendingReply('');
+
+    try {
+      const reply = await requestAnalysis(provider, {
+        ...input,
+        messages: [{ role: 'assistant', content: formatPriorAnswer(result) }, ...conversation]
+      }, {
+        signal: abortController.signal,
+        onDelta: setPendingReply,
+        model
+      });
+      setMessages([...conversation, { role: 'assistant', content: reply.text }]);
+    } catch (error) {
+      // Put the question back so it can be sent again
+      setMessages(messages);
+      setQuestion(content);
+      if (!abortController.signal.aborted) {
+        console.error('Follow-up error:', error);
+        setError(describeError(error).message);
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setPendingReply(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-4 border-t border-gray-700">
+      <h3 className="font-semibold mb-3 flex items-center gap-2">
+        <FaComments className="highlight" /> Ask a follow-up question
+      </h3>
+
+      {messages.length > 0 && (
+        <div className="space-y-3 mb-4">
+          {messages.map((message, index) => (
+            <motion.div
+              key={index}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className={message.role === 'user'
+                ? 'ml-auto max-w-[85%] p-3 rounded-lg bg-gray-800 text-sm'
+                : 'max-w-[85%] p-3 rounded-lg bg-gray-900 border border-gray-800'}
+            >
+              {message.role === 'user' ? message.content : (
+                <div className="text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
+                  <ReactMarkdown>{message.content}</ReactMarkdown>
+                </div>
+              )}
+            </motion.div>
+          ))}
+          {isSending && (
+            <div className="max-w-[85%] p-3 rounded-lg bg-gray-900 border border-gray-800">
+              {pendingReply ? (
+                <div className="text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
+                  <ReactMarkdown>{pendingReply}</ReactMarkdown>
+                </div>
+              ) : (
+                <div className="w-5 h-5 border-2 border-highlight border-t-transparent rounded-full animate-spin"></div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isFull ? (
+        <p className="text-sm text-text-secondary">
+          This conversation is at its length limit. Reopen the analysis to start a new one.
+        </p>
+      ) : (
+        <div className="flex gap-2">
+          <textarea
+            rows={2}
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            disabled={isSending}
+            placeholder="E.g. what does a high MCV mean together with my B12?"
+            className="flex-1 bg-background border border-gray-700 rounded p-2 text-white text-sm focus:ring-2 focus:ring-highlight/50 focus:border-highlight transition-all duration-200 disabled:opacity-50"
+          ></textarea>
+          {isSending ? (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => abortControllerRef.current?.abort()}
+              className="px-4 rounded-md bg-gray-800 hover:bg-gray-700"
+              title="Stop"
+            >
+              <FaStop className="text-red-400" />
+            </motion.button>
+          ) : (
+            <motion.button
+              whileHover={question.trim() ? { scale: 1.05 } : {}}
+              whileTap={question.trim() ? { scale: 0.95 } : {}}
+              onClick={handleSend}
+              disabled={!question.trim()}
+              className={`px-4 rounded-md ${question.trim() ? 'btn-primary glow-btn' : 'bg-gray-700 cursor-not-allowed'}`}
+              title="Send"
+            >
+              <FaPaperPlane />
+            </motion.button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
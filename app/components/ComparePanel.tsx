@@ -0,0 +1,183 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { FaArrowLeft, FaUpload, FaHistory } from 'react-icons/fa';
+import { AnalysisRecord, ComparisonReport, ReportPage } from '../types';
+import { listAnalyses } from '../utils/history';
+import { getPagesText } from '../utils/pdf';
+import { getTransmittedPages } from '../utils/redaction';
+import { ErrorDescription } from '../utils/errors';
+import FileUploader from './FileUploader';
+import ErrorMessage from './ErrorMessage';
+
+interface SlotState {
+  source: 'upload' | 'history';
+  pages: ReportPage[];
+  recordId: string;
+}
+
+// Kept by the page so the selection survives a failed comparison
+export interface CompareState {
+  earlier: SlotState;
+  later: SlotState;
+  contextText: string;
+}
+
+const emptySlot: SlotState = { source: 'upload', pages: [], recordId: '' };
+
+export const emptyCompareState: CompareState = { earlier: emptySlot, later: emptySlot, contextText: '' };
+
+interface ComparePanelProps {
+  state: CompareState;
+  onStateChange: (state: CompareState) => void;
+  isLoading: boolean;
+  error: ErrorDescription | null;
+  onOpenSettings: () => void;
+  onCompare: (reports: ComparisonReport[], contextText?: string) => void;
+  onBack: () => void;
+}
+
+// Turn a slot into the report sent to the API, null while nothing is selected
+const toReport = (slot: SlotState, records: AnalysisRecord[]): ComparisonReport | null => {
+  if (slot.source === 'upload') {
+    if (slot.pages.length === 0) return null;
+    const transmitted = getTransmittedPages(slot.pages);
+    return {
+      label: 'New upload',
+      images: transmitted.map(page => page.image),
+      reportText: getPagesText(transmitted)
+    };
+  }
+
+  const record = records.find(record => record.id === slot.recordId);
+  if (!record) return null;
+  return {
+    label: record.title,
+    date: record.createdAt,
+    biomarkers: record.result.biomarkers
+  };
+};
+
+function ReportSlot({ title, slot, records, onChange }: {
+  title: string;
+  slot: SlotState;
+  records: AnalysisRecord[];
+  onChange: (slot: SlotState) => void;
+}) {
+  return (
+    <div className="p-4 bg-gray-900 rounded-lg border border-gray-800">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold">{title}</h3>
+        <div className="flex gap-1 text-xs">
+          <button
+            onClick={() => onChange({ ...slot, source: 'upload' })}
+            className={`px-2 py-1 rounded flex items-center gap-1 ${slot.source === 'upload' ? 'bg-gray-700 text-white' : 'text-text-secondary hover:text-white'}`}
+          >
+            <FaUpload size={10} /> Upload
+          </button>
+          <button
+            onClick={() => onChange({ ...slot, source: 'history' })}
+            disabled={records.length === 0}
+            className={`px-2 py-1 rounded flex items-center gap-1 disabled:opacity-50 ${slot.source === 'history' ? 'bg-gray-700 text-white' : 'text-text-secondary hover:text-white'}`}
+            title={records.length === 0 ? 'No saved analyses with extracted values yet' : undefined}
+          >
+            <FaHistory size={10} /> From history
+          </button>
+        </div>
+      </div>
+
+      {slot.source === 'upload' ? (
+        <FileUploader pages={slot.pages} onPagesChange={(pages) => onChange({ ...slot, pages })} />
+      ) : (
+        <select
+          value={slot.recordId}
+          onChange={(e) => onChange({ ...slot, recordId: e.target.value })}
+          className="w-full bg-background border border-gray-700 rounded p-2 text-white text-sm focus:border-highlight focus:ring-1 focus:ring-highlight/30"
+        >
+          <option value="">Choose a saved analysis...</option>
+          {records.map(record => (
+            <option key={record.id} value={record.id}>
+              {record.title} · {new Date(record.createdAt).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default function ComparePanel({ state, onStateChange, isLoading, error, onOpenSettings, onCompare, onBack }: ComparePanelProps) {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const { earlier, later, contextText } = state;
+
+  // Only saved analyses with extracted values can stand in for a report
+  useEffect(() => {
+    listAnalyses()
+      .then(all => setRecords(all.filter(record => record.result.biomarkers.length > 0)))
+      .catch(error => console.error('Failed to load history for comparison:', error));
+  }, []);
+
+  const reportA = toReport(earlier, records);
+  const reportB = toReport(later, records);
+  const canCompare = !isLoading && reportA !== null && reportB !== null;
+
+  const handleCompare = () => {
+    if (!reportA || !reportB) return;
+    onCompare([reportA, reportB], contextText.trim() || undefined);
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={onBack}
+          className="p-2 rounded-full settings-btn"
+          title="Back to image upload"
+        >
+          <FaArrowLeft />
+        </motion.button>
+        <p className="text-sm text-text-secondary">
+          Pick an earlier and a later report to see what changed between them.
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <ReportSlot title="Earlier report (A)" slot={earlier} records={records} onChange={(slot) => onStateChange({ ...state, earlier: slot })} />
+        <ReportSlot title="Later report (B)" slot={later} records={records} onChange={(slot) => onStateChange({ ...state, later: slot })} />
+      </div>
+
+      <div className="mt-6">
+        <label htmlFor="compare-context" className="block mb-2 text-sm font-medium">
+          Additional Context (optional)
+        </label>
+        <textarea
+          id="compare-context"
+          rows={2}
+          value={contextText}
+          onChange={(e) => onStateChange({ ...state, contextText: e.target.value })}
+          placeholder="E.g. started a statin between the two tests..."
+          className="w-full bg-background border border-gray-700 rounded p-3 text-white focus:ring-2 focus:ring-highlight/50 focus:border-highlight transition-all duration-200"
+        ></textarea>
+      </div>
+
+      <div className="mt-6 flex justify-end">
+        <motion.button
+          onClick={handleCompare}
+          disabled={!canCompare}
+          className={`px-6 py-3 rounded-md ${canCompare ? 'btn-primary glow-btn' : 'bg-gray-700 cursor-not-allowed'} w-full sm:w-auto`}
+          whileHover={canCompare ? { scale: 1.03 } : {}}
+          whileTap={canCompare ? { scale: 0.97 } : {}}
+        >
+          {isLoading ? 'Comparing...' : 'Compare Reports'}
+        </motion.button>
+      </div>
+
+      {error && (
+        <ErrorMessage error={error} onOpenSettings={onOpenSettings} />
+      )}
+    </div>
+  );
+}
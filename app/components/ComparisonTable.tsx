@@ -0,0 +1,61 @@
+'use client';
+
+import { FaArrowUp, FaArrowDown, FaEquals } from 'react-icons/fa';
+import { BiomarkerChange, UnitSystem } from '../types';
+import { convertChange } from '../utils/conversion';
+
+interface ComparisonTableProps {
+  changes: BiomarkerChange[];
+  unitSystem?: UnitSystem; // unset shows the units as reported
+}
+
+const assessmentStyles = {
+  improved: { label: 'Improved', className: 'text-green-400' },
+  worsened: { label: 'Worsened', className: 'text-red-400' },
+  unchanged: { label: 'Unchanged', className: 'text-text-secondary' },
+  unclear: { label: 'Unclear', className: 'text-yellow-300' }
+};
+
+export default function ComparisonTable({ changes, unitSystem }: ComparisonTableProps) {
+  if (changes.length === 0) {
+    return null;
+  }
+
+  // Changed values first, so the interesting rows are on top
+  const sorted = changes.map(change => convertChange(change, unitSystem)).sort((a, b) => Number(a.direction === 'same') - Number(b.direction === 'same'));
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-800">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-900 text-text-secondary">
+          <tr>
+            <th className="text-left p-2 font-medium">Test</th>
+            <th className="text-left p-2 font-medium">Earlier (A)</th>
+            <th className="text-left p-2 font-medium">Later (B)</th>
+            <th className="text-left p-2 font-medium">Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((change, index) => {
+            const assessment = assessmentStyles[change.assessment];
+            return (
+              <tr key={`${change.name}-${index}`} className="border-t border-gray-800">
+                <td className="p-2">{change.name}</td>
+                <td className="p-2 font-mono text-text-secondary">{change.before} {change.unit}</td>
+                <td className="p-2 font-mono">{change.after} {change.unit}</td>
+                <td className={`p-2 ${assessment.className}`}>
+                  <span className="flex items-center gap-1">
+                    {change.direction === 'up' && <FaArrowUp size={10} />}
+                    {change.direction === 'down' && <FaArrowDown size={10} />}
+                    {change.direction === 'same' && <FaEquals size={10} />}
+                    {assessment.label}
+                  </span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { FaExclamationTriangle } from 'react-icons/fa';
+import { ConsensusRow, LLMProvider } from '../types';
+import { getProviderLabel } from '../providers';
+import { isDisagreement } from '../utils/consensus';
+
+interface ConsensusTableProps {
+  rows: ConsensusRow[];
+  providers: LLMProvider[];
+}
+
+const flagLabels = {
+  high: { label: 'High', className: 'text-red-400' },
+  low: { label: 'Low', className: 'text-blue-400' },
+  normal: { label: 'Normal', className: 'text-green-400' }
+};
+
+// What the providers disagree about, in a few words
+const describeDisagreement = (row: ConsensusRow): string => {
+  const issues: string[] = [];
+  if (!row.valuesAgree) issues.push('values differ');
+  if (!row.flagsAgree) issues.push('flags differ');
+  if (row.missing.length > 0) issues.push(`missing from ${row.missing.map(getProviderLabel).join(', ')}`);
+  return issues.join(', ');
+};
+
+export default function ConsensusTable({ rows, providers }: ConsensusTableProps) {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  // Disagreements first, so the values to double-check are on top
+  const sorted = [...rows].sort((a, b) => Number(isDisagreement(b)) - Number(isDisagreement(a)));
+
+  return (
+    <div className="overflow-x-auto rounded-lg border border-gray-800">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-900 text-text-secondary">
+          <tr>
+            <th className="text-left p-2 font-medium">Test</th>
+            {providers.map(provider => (
+              <th key={provider} className="text-left p-2 font-medium">{getProviderLabel(provider)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, index) => {
+            const disagrees = isDisagreement(row);
+            return (
+              <tr key={`${row.name}-${index}`} className={`border-t border-gray-800 ${disagrees ? 'bg-yellow-900/20' : ''}`}>
+                <td className="p-2">
+                  {row.name}
+                  {disagrees && (
+                    <span className="flex items-center gap-1 text-xs text-yellow-300">
+                      <FaExclamationTriangle size={10} /> {describeDisagreement(row)}
+                    </span>
+                  )}
+                </td>
+                {providers.map(provider => {
+                  const reading = row.readings[provider];
+                  if (!reading) {
+                    return <td key={provider} className="p-2 text-yellow-300">-</td>;
+                  }
+                  const flag = flagLabels[reading.flag];
+                  return (
+                    <td key={provider} className="p-2">
+                      <span className={`font-mono ${row.valuesAgree ? '' : 'text-yellow-300'}`}>
+                        {reading.value} {reading.unit}
+                      </span>
+                      <span className={`block text-xs ${row.flagsAgree ? flag.className : 'text-yellow-300 font-medium'}`}>
+                        {flag.label}
+                      </span>
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FaArrowLeft, FaStop, FaBalanceScale, FaCheckCircle, FaTimesCircle, FaSpinner, FaSave } from 'react-icons/fa';
+import ReactMarkdown from 'react-markdown';
+import { ConsensusAnswer } from '../types';
+import { getProviderLabel } from '../providers';
+import { isDisagreement, reconcileResults } from '../utils/consensus';
+import { stripBiomarkerBlock } from '../utils/biomarkers';
+import BiomarkerTable from './BiomarkerTable';
+import ConsensusTable from './ConsensusTable';
+import UnitSystemToggle, { useUnitSystem } from './UnitSystemToggle';
+
+interface ConsensusViewProps {
+  answers: ConsensusAnswer[];
+  isLoading: boolean;
+  onBack: () => void;
+  onCancel: () => void;
+  onSave: (answer: ConsensusAnswer) => void;
+}
+
+const saveLabels = {
+  saving: 'Saving...',
+  saved: 'Saved to history',
+  failed: 'Could not save, try again'
+};
+
+const statusIcons = {
+  running: <FaSpinner size={10} className="animate-spin" />,
+  done: <FaCheckCircle size={10} className="text-green-400" />,
+  failed: <FaTimesCircle size={10} className="text-red-400" />
+};
+
+export default function ConsensusView({ answers, isLoading, onBack, onCancel, onSave }: ConsensusViewProps) {
+  const [tab, setTab] = useState<'reconciled' | number>('reconciled');
+  const [unitSystem, setUnitSystem] = useUnitSystem();
+
+  const finished = answers.flatMap(answer => answer.result ? [{ provider: answer.provider, biomarkers: answer.result.biomarkers }] : []);
+  const rows = reconcileResults(finished);
+  const disagreements = rows.filter(isDisagreement).length;
+  const selected = typeof tab === 'number' ? answers[tab] : null;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-text-secondary">
+          The same report was sent to {answers.length} providers. Where they disagree, check the value on the report yourself.
+          Answers aren't kept unless you save one to the history from its tab.
+        </p>
+        <div className="flex gap-2">
+          {isLoading && (
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={onCancel}
+              className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full transition-colors"
+              title="Stop all providers"
+            >
+              <FaStop className="text-red-400" />
+            </motion.button>
+          )}
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={onBack}
+            className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full transition-colors settings-btn"
+            title="Back to image upload"
+          >
+            <FaArrowLeft className="text-highlight" />
+          </motion.button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4 border-b border-gray-800 pb-2">
+        <button
+          onClick={() => setTab('reconciled')}
+          className={`px-3 py-1.5 rounded text-sm flex items-center gap-2 ${tab === 'reconciled' ? 'btn-primary' : 'bg-gray-800 text-white'}`}
+        >
+          <FaBalanceScale size={12} /> Reconciled
+        </button>
+        {answers.map((answer, index) => (
+          <button
+            key={answer.provider}
+            onClick={() => setTab(index)}
+            className={`px-3 py-1.5 rounded text-sm flex items-center gap-2 ${tab === index ? 'btn-primary' : 'bg-gray-800 text-white'}`}
+          >
+            {statusIcons[answer.status]} {getProviderLabel(answer.provider)}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'reconciled' && (
+        <div className="space-y-3">
+          {finished.length < 2 ? (
+            <p className="text-sm text-text-secondary">
+              {isLoading ? 'Waiting for at least two answers to compare...' : 'At least two providers need to answer to compare their readings.'}
+            </p>
+          ) : (
+            <>
+              <p className={`text-sm ${disagreements > 0 ? 'text-yellow-300' : 'text-green-400'}`}>
+                {disagreements > 0
+                  ? `${disagreements} of ${rows.length} values disagree between ${finished.length} providers`
+                  : `All ${finished.length} providers agree on ${rows.length} values`}
+              </p>
+              <ConsensusTable rows={rows} providers={finished.map(result => result.provider)} />
+            </>
+          )}
+        </div>
+      )}
+
+      {selected && (
+        <div className="space-y-4">
+          {selected.status === 'failed' && (
+            <div className="p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200">
+              {selected.error}
+            </div>
+          )}
+
+          {selected.result && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-text-secondary">Model: {selected.result.model}</p>
+                <div className="flex items-center gap-2">
+                  {selected.result.biomarkers.length > 0 && <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />}
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={() => onSave(selected)}
+                    disabled={selected.saveStatus === 'saving' || selected.saveStatus === 'saved'}
+                    className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 rounded text-sm flex items-center gap-2 disabled:opacity-60"
+                    title="Keep this answer in the history and trends"
+                  >
+                    <FaSave size={12} className="text-highlight" />
+                    {selected.saveStatus ? saveLabels[selected.saveStatus] : 'Save to history'}
+                  </motion.button>
+                </div>
+              </div>
+              <BiomarkerTable biomarkers={selected.result.biomarkers} unitSystem={unitSystem} />
+            </>
+          )}
+
+          {(selected.result || selected.streamingText) && (
+            <div className="bg-gray-900 rounded-lg p-4 overflow-auto max-h-[500px] border border-gray-800">
+              <div className="whitespace-pre-wrap font-mono text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
+                <ReactMarkdown>
+                  {selected.result ? selected.result.text : stripBiomarkerBlock(selected.streamingText || '')}
+                </ReactMarkdown>
+              </div>
+            </div>
+          )}
+
+          {selected.status === 'running' && !selected.streamingText && (
+            <p className="text-sm text-text-secondary">Waiting for {getProviderLabel(selected.provider)}...</p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-4 text-xs text-text-secondary italic">
+        Note: This analysis is for informational purposes only and should not replace professional medical advice.
+      </div>
+    </div>
+  );
+}
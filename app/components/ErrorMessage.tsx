@@ -0,0 +1,32 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { FaCog } from 'react-icons/fa';
+import { ErrorDescription } from '../utils/errors';
+
+interface ErrorMessageProps {
+  error: ErrorDescription;
+  onOpenSettings?: () => void;
+}
+
+export default function ErrorMessage({ error, onOpenSettings }: ErrorMessageProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200"
+    >
+      <p>{error.message}</p>
+      {error.action === 'settings' && onOpenSettings && (
+        <motion.button
+          whileHover={{ scale: 1.03 }}
+          whileTap={{ scale: 0.97 }}
+          onClick={onOpenSettings}
+          className="mt-2 px-3 py-1.5 bg-red-800 hover:bg-red-700 rounded text-sm text-white flex items-center gap-2 transition-colors"
+        >
+          <FaCog size={12} /> Open settings
+        </motion.button>
+      )}
+    </motion.div>
+  );
+}
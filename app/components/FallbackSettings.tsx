@@ -0,0 +1,103 @@
+'use client';
+
+import { FaArrowUp, FaArrowDown } from 'react-icons/fa';
+import { LLMProvider } from '../types';
+import { PROVIDER_ADAPTERS, PROVIDER_IDS } from '../providers';
+
+interface FallbackSettingsProps {
+  preferredProvider: LLMProvider;
+  maxRetries: number;
+  fallbacks: LLMProvider[]; // enabled fallbacks in the order they are tried
+  isAvailable: (provider: LLMProvider) => boolean; // has the user's own key or endpoint
+  onChange: (maxRetries: number, fallbacks: LLMProvider[]) => void;
+}
+
+const RETRY_OPTIONS = [0, 1, 2, 3];
+
+export default function FallbackSettings({ preferredProvider, maxRetries, fallbacks, isAvailable, onChange }: FallbackSettingsProps) {
+  const enabled = fallbacks.filter(provider => provider !== preferredProvider);
+  const others = PROVIDER_IDS.filter(provider => provider !== preferredProvider && !enabled.includes(provider));
+
+  const toggle = (provider: LLMProvider) => {
+    onChange(maxRetries, enabled.includes(provider)
+      ? enabled.filter(fallback => fallback !== provider)
+      : [...enabled, provider]);
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= enabled.length) return;
+    const reordered = [...enabled];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(maxRetries, reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label htmlFor="max-retries" className="block text-sm text-text-secondary mb-1">
+          Retries when a provider is busy or down
+        </label>
+        <select
+          id="max-retries"
+          value={maxRetries}
+          onChange={(e) => onChange(Number(e.target.value), enabled)}
+          className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+        >
+          {RETRY_OPTIONS.map(count => (
+            <option key={count} value={count}>{count === 0 ? 'No retries' : `${count} ${count === 1 ? 'retry' : 'retries'}`}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <p className="text-sm text-text-secondary mb-1">
+          Then try, in order
+        </p>
+        <ul className="space-y-1">
+          {[...enabled, ...others].map(provider => {
+            const index = enabled.indexOf(provider);
+            const available = isAvailable(provider);
+            return (
+              <li key={provider} className="flex items-center gap-2 p-2 bg-gray-900 rounded border border-gray-800 text-sm">
+                <label className={`flex flex-1 items-center gap-2 ${available ? '' : 'opacity-50'}`}>
+                  <input
+                    type="checkbox"
+                    checked={index >= 0}
+                    onChange={() => toggle(provider)}
+                    className="accent-highlight"
+                  />
+                  {PROVIDER_ADAPTERS[provider].label}
+                  {!available && <span className="text-xs text-text-secondary">needs your own {PROVIDER_ADAPTERS[provider].capabilities.customBaseUrl ? 'endpoint' : 'API key'}</span>}
+                </label>
+                {index >= 0 && (
+                  <>
+                    <button
+                      onClick={() => move(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Try ${PROVIDER_ADAPTERS[provider].shortLabel} earlier`}
+                    >
+                      <FaArrowUp size={10} />
+                    </button>
+                    <button
+                      onClick={() => move(index, 1)}
+                      disabled={index === enabled.length - 1}
+                      className="p-1 text-gray-400 hover:text-white disabled:opacity-30"
+                      aria-label={`Try ${PROVIDER_ADAPTERS[provider].shortLabel} later`}
+                    >
+                      <FaArrowDown size={10} />
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <p className="text-xs text-text-secondary mt-2">
+          Fallbacks only use your own API keys or endpoints, never the shared free analyses.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,66 +2,145 @@
 
 import { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { motion } from 'framer-motion';
-import { FaUpload, FaTimesCircle } from 'react-icons/fa';
+import { motion, Reorder } from 'framer-motion';
+import { FaUpload, FaTimesCircle, FaArrowUp, FaArrowDown, FaPlus, FaEyeSlash, FaEye, FaMagic } from 'react-icons/fa';
+import { ReportPage } from '../types';
+import { isPdfFile, readPdf } from '../utils/pdf';
+import { preprocessImage } from '../utils/preprocess';
+import PreprocessPreview from './PreprocessPreview';
+import RedactionEditor from './RedactionEditor';
+import TransmissionPreview from './TransmissionPreview';
 
 interface FileUploaderProps {
-  onImageSelect: (base64: string) => void;
+  pages: ReportPage[];
+  onPagesChange: (pages: ReportPage[]) => void;
 }
 
-export default function FileUploader({ onImageSelect }: FileUploaderProps) {
-  const [preview, setPreview] = useState<string | null>(null);
+const MAX_IMAGE_SIZE = 25 * 1024 * 1024; // 25MB, photos are compressed before upload
+const MAX_PDF_SIZE = 20 * 1024 * 1024; // 20MB, pages are re-encoded before upload
+const MAX_PAGES = 10; // keep the whole report within a single provider call
+
+const createPageId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const readImage = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+};
+
+// Preprocess a photo, keeping the original for the before/after preview
+const readPhoto = async (file: File): Promise<ReportPage> => {
+  const original = await readImage(file);
+  try {
+    const { image, adjustments } = await preprocessImage(file);
+    return { id: createPageId(), image, original, processed: image, adjustments };
+  } catch (error) {
+    console.error('Failed to preprocess image:', error);
+    return { id: createPageId(), image: original };
+  }
+};
+
+export default function FileUploader({ pages, onPagesChange }: FileUploaderProps) {
   const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [redactingId, setRedactingId] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [comparingId, setComparingId] = useState<string | null>(null);
 
-  const onDrop = useCallback((acceptedFiles: File[]) => {
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
     setError(null);
-    
+
     if (acceptedFiles.length === 0) {
       return;
     }
 
-    const file = acceptedFiles[0];
-    
-    // Check if the file is an image
-    if (!file.type.startsWith('image/')) {
-      setError('Please upload an image file');
-      return;
+    setIsProcessing(true);
+    const newPages: ReportPage[] = [];
+
+    try {
+      for (const file of acceptedFiles) {
+        if (isPdfFile(file)) {
+          if (file.size > MAX_PDF_SIZE) {
+            setError('PDF size must be less than 20MB');
+            continue;
+          }
+          const pdfPages = await readPdf(file);
+          newPages.push(...pdfPages.map(page => ({
+            id: createPageId(),
+            image: page.image,
+            text: page.text || undefined,
+            textItems: page.text ? page.textItems : undefined
+          })));
+          continue;
+        }
+
+        // Check if the file is an image
+        if (!file.type.startsWith('image/')) {
+          setError('Please upload image or PDF files');
+          continue;
+        }
+
+        // Check file size (25MB max)
+        if (file.size > MAX_IMAGE_SIZE) {
+          setError('Image size must be less than 25MB');
+          continue;
+        }
+
+        newPages.push(await readPhoto(file));
+      }
+    } catch (error) {
+      console.error('Failed to read file:', error);
+      setError('Could not read one of the files');
+    } finally {
+      setIsProcessing(false);
     }
-    
-    // Check file size (5MB max)
-    if (file.size > 5 * 1024 * 1024) {
-      setError('Image size must be less than 5MB');
+
+    if (newPages.length === 0) {
       return;
     }
 
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      const base64 = e.target?.result as string;
-      setPreview(base64);
-      onImageSelect(base64);
-    };
-    
-    reader.readAsDataURL(file);
-  }, [onImageSelect]);
+    const combined = [...pages, ...newPages];
+    if (combined.length > MAX_PAGES) {
+      setError(`A report can have at most ${MAX_PAGES} pages, extra pages were skipped`);
+    }
+    onPagesChange(combined.slice(0, MAX_PAGES));
+  }, [pages, onPagesChange]);
 
-  const { getRootProps, getInputProps, isDragActive } = useDropzone({ 
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.webp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.webp'],
+      'application/pdf': ['.pdf']
     },
-    maxFiles: 1
+    disabled: isProcessing || pages.length >= MAX_PAGES
   });
 
+  const removePage = (id: string) => {
+    setError(null);
+    if (comparingId === id) setComparingId(null);
+    onPagesChange(pages.filter(page => page.id !== id));
+  };
+
+  const updatePage = (updated: ReportPage) => {
+    onPagesChange(pages.map(page => page.id === updated.id ? updated : page));
+    setRedactingId(null);
+  };
+
+  const movePage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= pages.length) return;
 
-  const clearImage = () => {
-    setPreview(null);
-    onImageSelect('');
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onPagesChange(reordered);
   };
 
   return (
     <div className="w-full">
-      {!preview ? (
+      {pages.length === 0 ? (
         <div {...getRootProps()}>
           <motion.div
             whileHover={{ scale: 1.01, borderColor: '#D3FB18' }}
@@ -73,50 +152,150 @@ export default function FileUploader({ onImageSelect }: FileUploaderProps) {
             <input {...getInputProps()} />
             <div className="flex flex-col items-center justify-center">
               <motion.div
-                animate={{ 
-                  y: isDragActive ? [0, -10, 0] : 0 
+                animate={{
+                  y: isDragActive ? [0, -10, 0] : 0
                 }}
-                transition={{ 
-                  repeat: isDragActive ? Infinity : 0, 
-                  duration: 1 
+                transition={{
+                  repeat: isDragActive ? Infinity : 0,
+                  duration: 1
                 }}
               >
                 <FaUpload className={`text-4xl mb-4 ${isDragActive ? 'text-highlight' : 'text-gray-400'}`} />
               </motion.div>
               <p className="text-lg mb-2">
-                {isDragActive ? 'Drop the image here' : 'Drag & drop your blood test image'}
+                {isProcessing
+                  ? 'Reading files...'
+                  : isDragActive ? 'Drop the files here' : 'Drag & drop your blood test images or PDF'}
               </p>
-              <p className="text-sm text-text-secondary">or click to select a file</p>
+              <p className="text-sm text-text-secondary">or click to select files (up to {MAX_PAGES} pages)</p>
             </div>
           </motion.div>
         </div>
       ) : (
-        <motion.div 
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          className="relative rounded-lg overflow-hidden"
-        >
-          <div className="aspect-video bg-gray-900 flex items-center justify-center overflow-hidden">
-            <img 
-              src={preview} 
-              alt="Blood test preview" 
-              className="max-w-full max-h-full object-contain"
+        <div className="space-y-3">
+          <Reorder.Group axis="y" values={pages} onReorder={onPagesChange} className="space-y-2">
+            {pages.map((page, index) => (
+              <Reorder.Item
+                key={page.id}
+                value={page}
+                initial={{ opacity: 0, scale: 0.95 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="flex items-center gap-3 p-2 bg-gray-900 rounded-lg border border-gray-800 cursor-grab active:cursor-grabbing"
+              >
+                <div className="w-20 h-20 bg-black flex items-center justify-center overflow-hidden rounded flex-shrink-0">
+                  <img
+                    src={page.redactedImage || page.image}
+                    alt={`Blood test page ${index + 1}`}
+                    className="max-w-full max-h-full object-contain pointer-events-none"
+                  />
+                </div>
+                <div className="flex-1 text-sm">
+                  <p className="font-medium">Page {index + 1}</p>
+                  {page.text && (
+                    <p className="text-xs text-text-secondary">Text layer detected</p>
+                  )}
+                  {page.processed && (
+                    <p className="text-xs text-text-secondary">
+                      {page.image === page.original ? 'Using the original photo' : page.adjustments?.join(', ') || 'Compressed'}
+                    </p>
+                  )}
+                  {page.redactions?.length ? (
+                    <p className="text-xs highlight">{page.redactions.length} area{page.redactions.length === 1 ? '' : 's'} redacted</p>
+                  ) : null}
+                </div>
+                <div className="flex items-center gap-1">
+                  {page.processed && (
+                    <button
+                      onClick={() => setComparingId(comparingId === page.id ? null : page.id)}
+                      className={`p-2 rounded-full hover:text-white ${comparingId === page.id ? 'text-highlight' : 'text-gray-400'}`}
+                      aria-label="Compare with the original photo"
+                      title="Before and after preprocessing"
+                    >
+                      <FaMagic size={12} />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setRedactingId(page.id)}
+                    className="p-2 rounded-full text-gray-400 hover:text-white"
+                    aria-label="Redact personal details"
+                    title="Black out personal details before sending"
+                  >
+                    <FaEyeSlash size={12} />
+                  </button>
+                  <button
+                    onClick={() => movePage(index, -1)}
+                    disabled={index === 0}
+                    className="p-2 rounded-full text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Move page up"
+                  >
+                    <FaArrowUp size={12} />
+                  </button>
+                  <button
+                    onClick={() => movePage(index, 1)}
+                    disabled={index === pages.length - 1}
+                    className="p-2 rounded-full text-gray-400 hover:text-white disabled:opacity-30"
+                    aria-label="Move page down"
+                  >
+                    <FaArrowDown size={12} />
+                  </button>
+                  <motion.button
+                    onClick={() => removePage(page.id)}
+                    className="bg-black/70 text-white p-2 rounded-full hover:bg-black transition-colors duration-200"
+                    aria-label="Remove page"
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                  >
+                    <FaTimesCircle size={16} />
+                  </motion.button>
+                </div>
+              </Reorder.Item>
+            ))}
+          </Reorder.Group>
+
+          {comparingId && pages.some(page => page.id === comparingId) && (
+            <PreprocessPreview
+              page={pages.find(page => page.id === comparingId)!}
+              pageNumber={pages.findIndex(page => page.id === comparingId) + 1}
+              onChange={(updated) => onPagesChange(pages.map(page => page.id === updated.id ? updated : page))}
+              onClose={() => setComparingId(null)}
             />
-          </div>
-          <motion.button 
-            onClick={clearImage}
-            className="absolute top-2 right-2 bg-black/70 text-white p-2 rounded-full hover:bg-black transition-colors duration-200"
-            aria-label="Remove image"
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.9 }}
+          )}
+
+          {pages.length < MAX_PAGES && (
+            <div {...getRootProps()}>
+              <input {...getInputProps()} />
+              <div
+                className={`border-2 border-dashed ${
+                  isDragActive ? 'border-[#D3FB18]' : 'border-gray-700'
+                } rounded-lg p-3 text-center cursor-pointer text-sm text-text-secondary flex items-center justify-center gap-2 hover:border-[#D3FB18] transition-colors`}
+              >
+                <FaPlus size={12} />
+                {isProcessing ? 'Reading files...' : 'Add more pages'}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            className="text-sm text-text-secondary hover:text-white flex items-center gap-2"
           >
-            <FaTimesCircle size={20} />
-          </motion.button>
-        </motion.div>
+            <FaEye size={12} /> {showPreview ? 'Hide' : 'Preview'} what will be sent
+          </button>
+          {showPreview && <TransmissionPreview pages={pages} />}
+        </div>
       )}
-      
+
+      {redactingId && pages.some(page => page.id === redactingId) && (
+        <RedactionEditor
+          page={pages.find(page => page.id === redactingId)!}
+          pageNumber={pages.findIndex(page => page.id === redactingId) + 1}
+          onSave={updatePage}
+          onClose={() => setRedactingId(null)}
+        />
+      )}
+
       {error && (
-        <motion.p 
+        <motion.p
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
           className="text-red-500 mt-2 text-sm"
@@ -126,4 +305,4 @@ export default function FileUploader({ onImageSelect }: FileUploaderProps) {
       )}
     </div>
   );
-}
\ No newline at end of file
+}
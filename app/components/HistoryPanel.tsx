@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaArrowLeft, FaSearch, FaPen, FaTrash, FaCheck, FaTimes, FaFileMedical, FaFileImport } from 'react-icons/fa';
+import { AnalysisRecord } from '../types';
+import { getProviderLabel } from '../providers';
+import { deleteAnalysis, listAnalyses, renameAnalysis, searchAnalyses } from '../utils/history';
+import { importFhirBundle } from '../utils/fhir';
+
+interface HistoryPanelProps {
+  onOpen: (record: AnalysisRecord) => void;
+  onBack: () => void;
+}
+
+export default function HistoryPanel({ onOpen, onBack }: HistoryPanelProps) {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setRecords(await listAnalyses());
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      setError('Could not load your analysis history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const startRename = (record: AnalysisRecord) => {
+    setEditingId(record.id);
+    setEditingTitle(record.title);
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+
+    try {
+      await renameAnalysis(editingId, editingTitle);
+      setEditingId(null);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to rename analysis:', error);
+      setError('Could not rename the analysis');
+    }
+  };
+
+  const handleDelete = async (record: AnalysisRecord) => {
+    if (!window.confirm(`Delete "${record.title}"? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteAnalysis(record.id);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete analysis:', error);
+      setError('Could not delete the analysis');
+    }
+  };
+
+  const handleImport = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+
+    try {
+      const count = await importFhirBundle(file);
+      setNotice(`Imported ${count} ${count === 1 ? 'report' : 'reports'} from ${file.name}`);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to import FHIR bundle:', error);
+      setError(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'unknown error'}`);
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const filtered = searchAnalyses(records, query);
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={onBack}
+          className="p-2 rounded-full settings-btn"
+          title="Back to image upload"
+        >
+          <FaArrowLeft />
+        </motion.button>
+        <div className="relative flex-1">
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={12} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by title, notes or test name..."
+            className="w-full bg-background border border-gray-700 rounded pl-8 p-2 text-white text-sm focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+          />
+        </div>
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={() => fileInputRef.current?.click()}
+          className="p-2 rounded-full settings-btn"
+          title="Import a FHIR R4 bundle"
+        >
+          <FaFileImport />
+        </motion.button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json,application/fhir+json"
+          onChange={(e) => handleImport(e.target.files?.[0])}
+          className="hidden"
+        />
+      </div>
+
+      {notice && (
+        <div className="mb-4 p-3 bg-green-900/50 border border-green-800 rounded-md text-green-200 text-sm">
+          {notice}
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-6">
+          <div className="w-8 h-8 border-4 border-highlight border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className="text-center text-text-secondary p-6">
+          {records.length === 0 ? 'No saved analyses yet. Results are saved here automatically.' : 'No analyses match your search.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          <AnimatePresence>
+            {filtered.map(record => (
+              <motion.li
+                key={record.id}
+                layout
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -20 }}
+                className="flex items-center gap-3 p-2 bg-gray-900 rounded-lg border border-gray-800"
+              >
+                <button
+                  onClick={() => onOpen(record)}
+                  className="w-16 h-16 bg-black flex items-center justify-center overflow-hidden rounded flex-shrink-0"
+                  aria-label={`Open ${record.title}`}
+                >
+                  {record.thumbnail ? (
+                    <img src={record.thumbnail} alt="" className="max-w-full max-h-full object-contain" />
+                  ) : (
+                    <FaFileMedical className="text-gray-600 text-2xl" />
+                  )}
+                </button>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === record.id ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        autoFocus
+                        value={editingTitle}
+                        onChange={(e) => setEditingTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 bg-background border border-gray-700 rounded px-2 py-1 text-white text-sm focus:border-highlight"
+                      />
+                      <button onClick={handleRename} className="p-2 text-green-400" aria-label="Save title">
+                        <FaCheck size={12} />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-2 text-gray-400" aria-label="Cancel rename">
+                        <FaTimes size={12} />
+                      </button>
+                    </div>
+                  ) : (
+                    <button onClick={() => onOpen(record)} className="text-left w-full">
+                      <p className="font-medium truncate">{record.title}</p>
+                      <p className="text-xs text-text-secondary truncate">
+                        {new Date(record.createdAt).toLocaleString()} · {record.result.provider ? getProviderLabel(record.result.provider) : `Imported from a ${record.result.importedFrom}`}
+                        {record.result.biomarkers.length > 0 && ` · ${record.result.biomarkers.length} values`}
+                      </p>
+                    </button>
+                  )}
+                </div>
+
+                {editingId !== record.id && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => startRename(record)}
+                      className="p-2 rounded-full text-gray-400 hover:text-white"
+                      aria-label="Rename analysis"
+                    >
+                      <FaPen size={12} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(record)}
+                      className="p-2 rounded-full text-gray-400 hover:text-red-400"
+                      aria-label="Delete analysis"
+                    >
+                      <FaTrash size={12} />
+                    </button>
+                  </div>
+                )}
+              </motion.li>
+            ))}
+          </AnimatePresence>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { LLMProvider } from '../types';
+import { PROVIDER_ADAPTERS } from '../providers';
+
+interface ModelSelectProps {
+  provider: LLMProvider;
+  value: string; // empty for the provider's default
+  onChange: (model: string) => void;
+}
+
+const CUSTOM_OPTION = '__custom__';
+
+export default function ModelSelect({ provider, value, onChange }: ModelSelectProps) {
+  const adapter = PROVIDER_ADAPTERS[provider];
+  const isKnownModel = value === '' || adapter.models.some(model => model.id === value);
+  const [isCustom, setIsCustom] = useState(!isKnownModel);
+
+  // Switch to the text field when the saved model isn't in the list
+  useEffect(() => {
+    if (!isKnownModel) {
+      setIsCustom(true);
+    }
+  }, [isKnownModel]);
+
+  const handleSelect = (selected: string) => {
+    if (selected === CUSTOM_OPTION) {
+      setIsCustom(true);
+      return;
+    }
+    setIsCustom(false);
+    onChange(selected);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={isCustom ? CUSTOM_OPTION : value}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+      >
+        <option value="">
+          {adapter.defaultModel ? `Default (${adapter.defaultModel})` : 'Select a model'}
+        </option>
+        {adapter.models.map(model => (
+          <option key={model.id} value={model.id}>
+            {model.label}
+          </option>
+        ))}
+        <option value={CUSTOM_OPTION}>Other model...</option>
+      </select>
+
+      {isCustom && (
+        <motion.input
+          initial={{ opacity: 0, y: -5 }}
+          animate={{ opacity: 1, y: 0 }}
+          whileFocus={{ scale: 1.01 }}
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Model ID, e.g. gpt-4o-2024-08-06"
+          className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+        />
+      )}
+    </div>
+  );
+}
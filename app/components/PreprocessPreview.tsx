@@ -0,0 +1,64 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { FaTimes } from 'react-icons/fa';
+import { ReportPage } from '../types';
+
+interface PreprocessPreviewProps {
+  page: ReportPage;
+  pageNumber: number;
+  onChange: (page: ReportPage) => void;
+  onClose: () => void;
+}
+
+// Side by side view of an uploaded photo and its preprocessed version
+export default function PreprocessPreview({ page, pageNumber, onChange, onClose }: PreprocessPreviewProps) {
+  if (!page.original || !page.processed) return null;
+
+  const usesOriginal = page.image === page.original;
+
+  // Redaction boxes were drawn on the other version, so they no longer line up
+  const use = (image: string) => {
+    onChange({ ...page, image, redactions: undefined, redactedImage: undefined });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -5 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="p-3 bg-gray-900 rounded-lg border border-gray-800"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm font-medium">Page {pageNumber}: before and after</p>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-white" aria-label="Close preview">
+          <FaTimes size={12} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {[
+          { label: 'Original', image: page.original },
+          { label: 'Processed', image: page.processed }
+        ].map(version => (
+          <button
+            key={version.label}
+            onClick={() => use(version.image)}
+            className={`text-left rounded border-2 p-1 ${page.image === version.image ? 'border-highlight' : 'border-transparent hover:border-gray-700'}`}
+          >
+            <img src={version.image} alt={`${version.label} page ${pageNumber}`} className="w-full max-h-80 object-contain bg-black rounded" />
+            <span className="block mt-1 text-xs text-text-secondary">
+              {version.label}{page.image === version.image && ' (will be used)'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {page.adjustments && page.adjustments.length > 0 && (
+        <p className="mt-2 text-xs text-text-secondary">{page.adjustments.join(' · ')}</p>
+      )}
+      {usesOriginal && (
+        <p className="mt-1 text-xs text-yellow-300">The original is still downscaled to the provider&apos;s resolution when sent.</p>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { Fragment } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { AnalysisResult, Biomarker, PatientProfile, ProfileField, UnitSystem } from '../types';
+import { getProviderLabel } from '../providers';
+import { convertBiomarker, convertChange } from '../utils/conversion';
+import { formatProfileField, PROFILE_FIELD_LABELS } from '../utils/profile';
+import { formatRange } from './BiomarkerTable';
+
+interface PrintableReportProps {
+  result: AnalysisResult;
+  thumbnail?: string; // first page of the report as it was sent
+  unitSystem?: UnitSystem; // the units chosen on screen
+}
+
+// Rows that still fit on the one-page summary, the rest are in the full table
+const MAX_SUMMARY_ROWS = 20;
+
+const DISCLAIMER = 'This analysis was generated by an AI model from a photo or PDF of the report. It is for informational purposes only and does not replace professional medical advice. Check every value against the original report.';
+
+// The report is printed from a bare frame, so it brings its own print styles instead of the app's
+export const REPORT_STYLES = `
+  @page { size: A4; margin: 16mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font: 10.5pt/1.45 -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #111; }
+  h1 { font-size: 18pt; margin: 0 0 2pt; }
+  h2 { font-size: 13pt; margin: 14pt 0 6pt; border-bottom: 1px solid #ccc; padding-bottom: 2pt; }
+  h3 { font-size: 11pt; margin: 10pt 0 4pt; }
+  p, ul, ol { margin: 0 0 6pt; }
+  .meta { color: #555; font-size: 9pt; }
+  .summary { page-break-after: always; break-after: page; }
+  .summary-header { display: flex; justify-content: space-between; gap: 12pt; align-items: flex-start; }
+  .thumbnail { width: 32mm; max-height: 45mm; object-fit: contain; border: 1px solid #ccc; }
+  table { width: 100%; border-collapse: collapse; font-size: 9.5pt; margin-bottom: 6pt; }
+  th, td { text-align: left; padding: 3pt 5pt; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { background: #f2f2f2; font-weight: 600; }
+  tr { page-break-inside: avoid; break-inside: avoid; }
+  tr.high td { background: #fde8e8; }
+  tr.low td { background: #e6effc; }
+  .flag-high { color: #b91c1c; font-weight: 600; }
+  .flag-low { color: #1d4ed8; font-weight: 600; }
+  .profile { display: grid; grid-template-columns: max-content 1fr; gap: 1pt 10pt; margin-bottom: 6pt; }
+  .profile dt { color: #555; }
+  .profile dd { margin: 0; }
+  .notes { border: 1px solid #ccc; min-height: 30mm; padding: 4pt 6pt; color: #888; }
+  .analysis h1, .analysis h2, .analysis h3 { border: 0; font-size: 11pt; }
+  .disclaimer { margin-top: 12pt; font-size: 8.5pt; color: #555; font-style: italic; }
+`;
+
+const flagLabels = {
+  high: 'High',
+  low: 'Low',
+  normal: 'Normal'
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { dateStyle: 'long' });
+
+function ValuesTable({ biomarkers }: { biomarkers: Biomarker[] }) {
+  return (
+    <table>
+      <thead>
+        <tr>
+          <th>Test</th>
+          <th>Value</th>
+          <th>Reference Range</th>
+          <th>Flag</th>
+        </tr>
+      </thead>
+      <tbody>
+        {biomarkers.map((biomarker, index) => (
+          <tr key={`${biomarker.name}-${index}`} className={biomarker.flag}>
+            <td>{biomarker.name}</td>
+            <td>{biomarker.value} {biomarker.unit}</td>
+            <td>{formatRange(biomarker.referenceRange)}</td>
+            <td className={`flag-${biomarker.flag}`}>{flagLabels[biomarker.flag]}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function ProfileList({ profile }: { profile: PatientProfile }) {
+  const fields = (Object.keys(PROFILE_FIELD_LABELS) as ProfileField[])
+    .map(field => ({ field, value: formatProfileField(profile, field) }))
+    .filter(({ value }) => value);
+
+  return (
+    <dl className="profile">
+      {fields.map(({ field, value }) => (
+        <Fragment key={field}>
+          <dt>{PROFILE_FIELD_LABELS[field]}</dt>
+          <dd>{value}</dd>
+        </Fragment>
+      ))}
+    </dl>
+  );
+}
+
+// A one-page summary to hand to a clinician, followed by the full analysis
+export default function PrintableReport({ result, thumbnail, unitSystem }: PrintableReportProps) {
+  const biomarkers = result.biomarkers.map(biomarker => convertBiomarker(biomarker, unitSystem));
+  const changes = (result.changes || []).map(change => convertChange(change, unitSystem));
+  const outOfRange = biomarkers.filter(biomarker => biomarker.flag !== 'normal');
+  const worsened = changes.filter(change => change.assessment === 'worsened');
+  const source = [
+    result.provider && ` by ${getProviderLabel(result.provider)} (${result.model})`,
+    result.importedFrom && `, imported from a ${result.importedFrom}`
+  ].filter(Boolean).join('');
+
+  return (
+    <>
+      <section className="summary">
+        <div className="summary-header">
+          <div>
+            <h1>Blood Test Summary for Your Doctor</h1>
+            <p className="meta">Analyzed on {formatDate(result.timestamp)}{source}</p>
+          </div>
+          {thumbnail && <img src={thumbnail} alt="First page of the report" className="thumbnail" />}
+        </div>
+
+        {result.profile && (
+          <>
+            <h2>Patient</h2>
+            <ProfileList profile={result.profile} />
+          </>
+        )}
+
+        {result.mode === 'compare' ? (
+          <>
+            <h2>Values that worsened between the two reports</h2>
+            {worsened.length > 0 ? (
+              <table>
+                <thead>
+                  <tr>
+                    <th>Test</th>
+                    <th>Earlier (A)</th>
+                    <th>Later (B)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {worsened.slice(0, MAX_SUMMARY_ROWS).map((change, index) => (
+                    <tr key={`${change.name}-${index}`} className="high">
+                      <td>{change.name}</td>
+                      <td>{change.before} {change.unit}</td>
+                      <td>{change.after} {change.unit}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p>No value was assessed as worse in the later report.</p>
+            )}
+          </>
+        ) : (
+          <>
+            <h2>Values outside the reference range</h2>
+            {outOfRange.length > 0 ? (
+              <>
+                <p>{outOfRange.length} of {biomarkers.length} values are outside their reference range.</p>
+                <ValuesTable biomarkers={outOfRange.slice(0, MAX_SUMMARY_ROWS)} />
+                {outOfRange.length > MAX_SUMMARY_ROWS && (
+                  <p className="meta">{outOfRange.length - MAX_SUMMARY_ROWS} more are listed in the full table.</p>
+                )}
+              </>
+            ) : (
+              <p>
+                {biomarkers.length > 0
+                  ? `All ${biomarkers.length} values are within their reference range.`
+                  : 'No values could be read from the report, see the analysis.'}
+              </p>
+            )}
+          </>
+        )}
+
+        {result.profileNotes && result.profileNotes.length > 0 && (
+          <>
+            <h3>How the profile affected the interpretation</h3>
+            <ul>
+              {result.profileNotes.map(note => (
+                <li key={note.field}>{PROFILE_FIELD_LABELS[note.field]}: {note.note}</li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <h3>Questions and notes</h3>
+        <div className="notes">&nbsp;</div>
+
+        <p className="disclaimer">{DISCLAIMER}</p>
+      </section>
+
+      <section>
+        <h1>{result.mode === 'compare' ? 'Blood Test Comparison' : 'Blood Test Analysis'}</h1>
+        <p className="meta">Analyzed on {formatDate(result.timestamp)}{source}</p>
+
+        {biomarkers.length > 0 && (
+          <>
+            <h2>All values</h2>
+            <ValuesTable biomarkers={biomarkers} />
+          </>
+        )}
+
+        {changes.length > 0 && (
+          <>
+            <h2>Changes</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Test</th>
+                  <th>Earlier (A)</th>
+                  <th>Later (B)</th>
+                  <th>Assessment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map((change, index) => (
+                  <tr key={`${change.name}-${index}`} className={change.assessment === 'worsened' ? 'high' : ''}>
+                    <td>{change.name}</td>
+                    <td>{change.before} {change.unit}</td>
+                    <td>{change.after} {change.unit}</td>
+                    <td>{change.assessment}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <h2>Analysis</h2>
+        <div className="analysis">
+          <ReactMarkdown>{result.text}</ReactMarkdown>
+        </div>
+
+        <p className="disclaimer">{DISCLAIMER}</p>
+      </section>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { BiologicalSex, PatientProfile } from '../types';
+import { normalizeProfile } from '../utils/profile';
+
+// Form values as typed, lists are kept as text until saved
+export interface ProfileDraft {
+  age: string;
+  sex: BiologicalSex | '';
+  pregnant: boolean;
+  medications: string;
+  conditions: string;
+}
+
+export const toProfileDraft = (profile?: PatientProfile): ProfileDraft => ({
+  age: profile?.age !== undefined ? String(profile.age) : '',
+  sex: profile?.sex || '',
+  pregnant: profile?.pregnant || false,
+  medications: profile?.medications?.join(', ') || '',
+  conditions: profile?.conditions?.join(', ') || ''
+});
+
+// Lists can be separated by commas or new lines
+const splitList = (text: string) => text.split(/[,\n]/);
+
+export const fromProfileDraft = (draft: ProfileDraft): PatientProfile | undefined => {
+  return normalizeProfile({
+    age: draft.age.trim() === '' ? undefined : Number(draft.age),
+    sex: draft.sex || undefined,
+    pregnant: draft.sex !== 'male' && draft.pregnant,
+    medications: splitList(draft.medications),
+    conditions: splitList(draft.conditions)
+  });
+};
+
+interface ProfileFormProps {
+  draft: ProfileDraft;
+  onChange: (draft: ProfileDraft) => void;
+}
+
+const inputClassName = 'w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200';
+
+export default function ProfileForm({ draft, onChange }: ProfileFormProps) {
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="profile-age" className="block text-sm text-text-secondary mb-1">Age</label>
+          <input
+            id="profile-age"
+            type="number"
+            min={0}
+            max={130}
+            value={draft.age}
+            onChange={(e) => onChange({ ...draft, age: e.target.value })}
+            placeholder="Years"
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="profile-sex" className="block text-sm text-text-secondary mb-1">Sex</label>
+          <select
+            id="profile-sex"
+            value={draft.sex}
+            onChange={(e) => onChange({ ...draft, sex: e.target.value as ProfileDraft['sex'] })}
+            className={inputClassName}
+          >
+            <option value="">Not set</option>
+            <option value="female">Female</option>
+            <option value="male">Male</option>
+            <option value="other">Other</option>
+          </select>
+        </div>
+      </div>
+
+      {draft.sex !== 'male' && (
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          <input
+            type="checkbox"
+            checked={draft.pregnant}
+            onChange={(e) => onChange({ ...draft, pregnant: e.target.checked })}
+            className="accent-highlight"
+          />
+          Currently pregnant
+        </label>
+      )}
+
+      <div>
+        <label htmlFor="profile-medications" className="block text-sm text-text-secondary mb-1">Medications</label>
+        <textarea
+          id="profile-medications"
+          rows={2}
+          value={draft.medications}
+          onChange={(e) => onChange({ ...draft, medications: e.target.value })}
+          placeholder="E.g. levothyroxine, atorvastatin"
+          className={inputClassName}
+        ></textarea>
+      </div>
+
+      <div>
+        <label htmlFor="profile-conditions" className="block text-sm text-text-secondary mb-1">Conditions</label>
+        <textarea
+          id="profile-conditions"
+          rows={2}
+          value={draft.conditions}
+          onChange={(e) => onChange({ ...draft, conditions: e.target.value })}
+          placeholder="E.g. hypothyroidism, type 2 diabetes"
+          className={inputClassName}
+        ></textarea>
+      </div>
+    </div>
+  );
+}
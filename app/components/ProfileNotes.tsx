@@ -0,0 +1,45 @@
+'use client';
+
+import { FaUser } from 'react-icons/fa';
+import { PatientProfile, ProfileField, ProfileNote } from '../types';
+import { formatProfileField, PROFILE_FIELD_LABELS } from '../utils/profile';
+
+interface ProfileNotesProps {
+  profile: PatientProfile;
+  notes: ProfileNote[];
+}
+
+export default function ProfileNotes({ profile, notes }: ProfileNotesProps) {
+  const fields = (Object.keys(PROFILE_FIELD_LABELS) as ProfileField[])
+    .filter(field => formatProfileField(profile, field) !== null);
+  const usedFields = new Set(notes.map(note => note.field));
+
+  return (
+    <div className="p-3 bg-gray-900 rounded-lg border border-gray-800 text-sm">
+      <p className="flex items-center gap-2 text-text-secondary mb-2">
+        <FaUser size={12} className="highlight" /> Interpreted for this profile
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {fields.map(field => (
+          <span
+            key={field}
+            className={`px-2 py-0.5 rounded-full text-xs ${usedFields.has(field) ? 'bg-highlight/20 text-highlight' : 'bg-gray-800 text-text-secondary'}`}
+            title={usedFields.has(field) ? 'Affected the interpretation' : 'Did not change the interpretation'}
+          >
+            {PROFILE_FIELD_LABELS[field]}: {formatProfileField(profile, field)}
+          </span>
+        ))}
+      </div>
+      {notes.length > 0 && (
+        <ul className="mt-3 space-y-1">
+          {notes.map((note, index) => (
+            <li key={index}>
+              <span className="font-medium">{PROFILE_FIELD_LABELS[note.field]}:</span>{' '}
+              <span className="text-text-secondary">{note.note}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
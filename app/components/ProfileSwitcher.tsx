@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaUserFriends, FaCheck, FaCog } from 'react-icons/fa';
+import { HouseholdProfile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: HouseholdProfile[];
+  activeProfileId: string;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onManage: () => void;
+}
+
+export default function ProfileSwitcher({ profiles, activeProfileId, disabled, onSwitch, onManage }: ProfileSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const active = profiles.find(profile => profile.id === activeProfileId);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <motion.button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="px-3 py-2 rounded-full settings-btn flex items-center gap-2 disabled:opacity-50"
+        aria-label="Switch profile"
+        aria-expanded={isOpen}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+      >
+        <FaUserFriends className="text-xl" />
+        <span className="hidden sm:inline max-w-[8rem] truncate text-sm">{active?.name}</span>
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.ul
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute right-0 mt-2 w-56 z-40 p-1 bg-gray-900 border border-gray-800 rounded-lg shadow-lg"
+          >
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                <button
+                  onClick={() => choose(() => onSwitch(profile.id))}
+                  className="w-full text-left px-3 py-2 rounded flex items-center justify-between gap-2 hover:bg-gray-800 text-sm"
+                >
+                  <span className="truncate">{profile.name}</span>
+                  {profile.id === activeProfileId && <FaCheck size={10} className="highlight flex-shrink-0" />}
+                </button>
+              </li>
+            ))}
+            <li className="border-t border-gray-800 mt-1 pt-1">
+              <button
+                onClick={() => choose(onManage)}
+                className="w-full text-left px-3 py-2 rounded flex items-center gap-2 hover:bg-gray-800 text-sm text-text-secondary"
+              >
+                <FaCog size={12} /> Manage profiles
+              </button>
+            </li>
+          </motion.ul>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaTimes, FaUserFriends, FaPen, FaTrash, FaCheck, FaFileDownload, FaPlus } from 'react-icons/fa';
+import { HouseholdProfile } from '../types';
+import { addHouseholdProfile, getActiveProfileId, getHouseholdProfiles, renameHouseholdProfile } from '../utils/settings';
+import { deleteHouseholdProfile, exportHouseholdProfile } from '../utils/household';
+
+interface ProfilesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onChange: () => void; // profiles were added, renamed or deleted
+}
+
+export default function ProfilesModal({ isOpen, onClose, onChange }: ProfilesModalProps) {
+  const [profiles, setProfiles] = useState<HouseholdProfile[]>([]);
+  const [activeId, setActiveId] = useState('');
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () => {
+    setProfiles(getHouseholdProfiles());
+    setActiveId(getActiveProfileId());
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    addHouseholdProfile(newName);
+    setNewName('');
+    refresh();
+    onChange();
+  };
+
+  const handleRename = () => {
+    if (!editingId) return;
+    renameHouseholdProfile(editingId, editingName);
+    setEditingId(null);
+    refresh();
+    onChange();
+  };
+
+  const handleExport = async (profile: HouseholdProfile) => {
+    try {
+      const blob = await exportHouseholdProfile(profile.id);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `bloodq-${profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${new Date().toISOString().split('T')[0]}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export profile:', error);
+      setError('Could not export the profile');
+    }
+  };
+
+  const handleDelete = async (profile: HouseholdProfile) => {
+    if (!window.confirm(`Delete "${profile.name}" and all of their saved analyses? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      await deleteHouseholdProfile(profile.id);
+      refresh();
+      onChange();
+    } catch (error) {
+      console.error('Failed to delete profile:', error);
+      setError(error instanceof Error ? error.message : 'Could not delete the profile');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.9, y: 20 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.9, y: 20 }}
+            className="card w-full max-w-md mx-4 p-6 relative overflow-x-hidden overflow-y-auto max-h-[90vh]"
+          >
+            {/* Decorative element */}
+            <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-highlight to-highlight/50" />
+
+            <motion.button
+              whileHover={{ scale: 1.1, rotate: 90 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={onClose}
+              className="absolute top-4 right-4 text-gray-400 hover:text-white"
+            >
+              <FaTimes size={20} />
+            </motion.button>
+
+            <h2 className="text-2xl font-semibold mb-2 highlight flex items-center gap-2">
+              <FaUserFriends className="text-highlight" /> Profiles
+            </h2>
+            <p className="text-xs text-text-secondary mb-6">
+              Each profile has its own patient details, history and trends. API keys and models are shared.
+            </p>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+                {error}
+              </div>
+            )}
+
+            <ul className="space-y-2">
+              {profiles.map(profile => (
+                <li key={profile.id} className="flex items-center gap-2 p-2 bg-gray-900 rounded-lg border border-gray-800">
+                  {editingId === profile.id ? (
+                    <div className="flex flex-1 items-center gap-1">
+                      <input
+                        autoFocus
+                        value={editingName}
+                        onChange={(e) => setEditingName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename();
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        className="flex-1 bg-background border border-gray-700 rounded px-2 py-1 text-white text-sm focus:border-highlight"
+                      />
+                      <button onClick={handleRename} className="p-2 text-green-400" aria-label="Save name">
+                        <FaCheck size={12} />
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="p-2 text-gray-400" aria-label="Cancel rename">
+                        <FaTimes size={12} />
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <span className="flex-1 truncate">
+                        {profile.name}
+                        {profile.id === activeId && <span className="ml-2 text-xs highlight">active</span>}
+                      </span>
+                      <button
+                        onClick={() => { setEditingId(profile.id); setEditingName(profile.name); }}
+                        className="p-2 rounded-full text-gray-400 hover:text-white"
+                        aria-label={`Rename ${profile.name}`}
+                      >
+                        <FaPen size={12} />
+                      </button>
+                      <button
+                        onClick={() => handleExport(profile)}
+                        className="p-2 rounded-full text-gray-400 hover:text-white"
+                        aria-label={`Export ${profile.name}`}
+                        title="Export profile and analyses as JSON"
+                      >
+                        <FaFileDownload size={12} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        disabled={profiles.length <= 1}
+                        className="p-2 rounded-full text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-400"
+                        aria-label={`Delete ${profile.name}`}
+                      >
+                        <FaTrash size={12} />
+                      </button>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            <div className="mt-4 flex gap-2">
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAdd();
+                }}
+                placeholder="Name, e.g. Mom or Sam"
+                className="flex-1 bg-background border border-gray-700 rounded p-2 text-white text-sm focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+              />
+              <motion.button
+                whileHover={newName.trim() ? { scale: 1.05 } : {}}
+                whileTap={newName.trim() ? { scale: 0.95 } : {}}
+                onClick={handleAdd}
+                disabled={!newName.trim()}
+                className={`px-3 rounded flex items-center gap-1 text-sm ${newName.trim() ? 'btn-primary glow-btn' : 'bg-gray-700 cursor-not-allowed'}`}
+              >
+                <FaPlus size={10} /> Add
+              </motion.button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useRef } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FaTimes, FaEyeSlash, FaMagic, FaUndo } from 'react-icons/fa';
+import { PageRegion, ReportPage } from '../types';
+import { applyRedactions, clampRegion, detectPersonalDetails, HEADER_HEIGHT, regionsOverlap } from '../utils/redaction';
+
+interface RedactionEditorProps {
+  page: ReportPage;
+  pageNumber: number;
+  onSave: (page: ReportPage) => void;
+  onClose: () => void;
+}
+
+// Boxes smaller than this are treated as stray clicks
+const MIN_REGION_SIZE = 0.005;
+
+export default function RedactionEditor({ page, pageNumber, onSave, onClose }: RedactionEditorProps) {
+  const [regions, setRegions] = useState<PageRegion[]>(page.redactions || []);
+  const [draft, setDraft] = useState<PageRegion | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  // Pointer position as a fraction of the displayed page
+  const toPoint = (e: React.PointerEvent) => {
+    const rect = surfaceRef.current!.getBoundingClientRect();
+    return {
+      x: Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = toPoint(e);
+    setDraft({ ...startRef.current, width: 0, height: 0 });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = startRef.current;
+    if (!start) return;
+    const point = toPoint(e);
+    setDraft({
+      x: Math.min(start.x, point.x),
+      y: Math.min(start.y, point.y),
+      width: Math.abs(point.x - start.x),
+      height: Math.abs(point.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (draft && draft.width > MIN_REGION_SIZE && draft.height > MIN_REGION_SIZE) {
+      setRegions([...regions, clampRegion(draft)]);
+    }
+    startRef.current = null;
+    setDraft(null);
+  };
+
+  // Add regions that aren't already covered
+  const addRegions = (added: PageRegion[]) => {
+    setRegions([...regions, ...added.filter(region => !regions.some(existing => regionsOverlap(existing, region)))]);
+  };
+
+  const handleDetect = () => {
+    const detected = detectPersonalDetails(page.textItems || []);
+    if (detected.length === 0) {
+      setError('No personal details were found in the text layer, draw boxes over anything you want hidden');
+      return;
+    }
+    setError(null);
+    addRegions(detected);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (regions.length === 0) {
+        onSave({ ...page, redactions: undefined, redactedImage: undefined });
+      } else {
+        onSave({ ...page, redactions: regions, redactedImage: await applyRedactions(page.image, regions) });
+      }
+    } catch (error) {
+      console.error('Failed to redact page:', error);
+      setError('Could not redact this page');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const boxes = draft ? [...regions, draft] : regions;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      >
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9, y: 20 }}
+          animate={{ opacity: 1, scale: 1, y: 0 }}
+          exit={{ opacity: 0, scale: 0.9, y: 20 }}
+          className="card w-full max-w-2xl mx-4 p-6 relative overflow-x-hidden overflow-y-auto max-h-[90vh]"
+        >
+          {/* Decorative element */}
+          <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-highlight to-highlight/50" />
+
+          <motion.button
+            whileHover={{ scale: 1.1, rotate: 90 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-white"
+          >
+            <FaTimes size={20} />
+          </motion.button>
+
+          <h2 className="text-2xl font-semibold mb-2 highlight flex items-center gap-2">
+            <FaEyeSlash className="text-highlight" /> Redact Page {pageNumber}
+          </h2>
+          <p className="text-xs text-text-secondary mb-4">
+            Drag over names, dates of birth, record numbers, addresses and physician names to black them out.
+            Click a box to remove it. Only the redacted page is sent to the AI provider.
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            <motion.button
+              whileHover={page.textItems?.length ? { scale: 1.05 } : {}}
+              whileTap={page.textItems?.length ? { scale: 0.95 } : {}}
+              onClick={handleDetect}
+              disabled={!page.textItems?.length}
+              title={page.textItems?.length ? undefined : 'This page has no text layer, draw the boxes by hand'}
+              className="px-3 py-1.5 rounded bg-gray-800 text-white text-sm flex items-center gap-2 disabled:opacity-40"
+            >
+              <FaMagic size={12} /> Detect personal details
+            </motion.button>
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => addRegions([{ x: 0, y: 0, width: 1, height: HEADER_HEIGHT }])}
+              className="px-3 py-1.5 rounded bg-gray-800 text-white text-sm"
+            >
+              Cover header
+            </motion.button>
+            <motion.button
+              whileHover={regions.length ? { scale: 1.05 } : {}}
+              whileTap={regions.length ? { scale: 0.95 } : {}}
+              onClick={() => setRegions([])}
+              disabled={regions.length === 0}
+              className="px-3 py-1.5 rounded bg-gray-800 text-white text-sm flex items-center gap-2 disabled:opacity-40"
+            >
+              <FaUndo size={10} /> Clear
+            </motion.button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div
+            ref={surfaceRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="relative select-none touch-none cursor-crosshair border border-gray-800 rounded overflow-hidden"
+          >
+            <img src={page.image} alt={`Blood test page ${pageNumber}`} className="w-full pointer-events-none" draggable={false} />
+            {boxes.map((region, index) => (
+              <div
+                key={index}
+                onPointerDown={(e) => {
+                  // Clicking a saved box removes it instead of starting a new one
+                  if (index < regions.length) {
+                    e.stopPropagation();
+                    setRegions(regions.filter((_, i) => i !== index));
+                  }
+                }}
+                className={`absolute bg-black ${index < regions.length ? 'cursor-pointer hover:outline hover:outline-2 hover:outline-red-500' : 'opacity-80'}`}
+                style={{
+                  left: `${region.x * 100}%`,
+                  top: `${region.y * 100}%`,
+                  width: `${region.width * 100}%`,
+                  height: `${region.height * 100}%`
+                }}
+              />
+            ))}
+          </div>
+
+          <div className="mt-6 flex justify-end space-x-3">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={onClose}
+              className="px-4 py-2 rounded bg-gray-800 text-white"
+            >
+              Cancel
+            </motion.button>
+            <motion.button
+              whileHover={!isSaving ? { scale: 1.05 } : {}}
+              whileTap={!isSaving ? { scale: 0.95 } : {}}
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-4 py-2 rounded btn-primary glow-btn"
+            >
+              {isSaving ? 'Redacting...' : 'Apply Redactions'}
+            </motion.button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
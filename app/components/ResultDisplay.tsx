@@ -2,18 +2,34 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { FaCopy, FaCheckCircle, FaFileDownload, FaRobot, FaArrowLeft } from 'react-icons/fa';
-import { AnalysisResult } from '../types';
+import { FaCopy, FaCheckCircle, FaFileDownload, FaFileMedical, FaFilePdf, FaRobot, FaArrowLeft, FaStop } from 'react-icons/fa';
+import { AnalysisInput, AnalysisResult } from '../types';
 import ReactMarkdown from 'react-markdown';
+import BiomarkerTable from './BiomarkerTable';
+import ComparisonTable from './ComparisonTable';
+import ChatPanel from './ChatPanel';
+import ProfileNotes from './ProfileNotes';
+import PrintableReport, { REPORT_STYLES } from './PrintableReport';
+import UnitSystemToggle, { useUnitSystem } from './UnitSystemToggle';
+import { stripBiomarkerBlock } from '../utils/biomarkers';
+import { getProviderLabel } from '../providers';
+import { formatProfile } from '../utils/profile';
+import { printDocument } from '../utils/print';
+import { toFhirBundle } from '../utils/fhir';
 
 interface ResultDisplayProps {
   result: AnalysisResult | null;
   isLoading: boolean;
+  streamingText?: string; // partial output while the analysis is streaming in
   onBack: () => void;
+  onCancel?: () => void;
+  followUpInput?: AnalysisInput | null; // enables follow-up questions about the result
+  thumbnail?: string; // first page of the report, shown in the PDF
 }
 
-export default function ResultDisplay({ result, isLoading, onBack }: ResultDisplayProps) {
+export default function ResultDisplay({ result, isLoading, streamingText, onBack, onCancel, followUpInput, thumbnail }: ResultDisplayProps) {
   const [copied, setCopied] = useState(false);
+  const [unitSystem, setUnitSystem] = useUnitSystem();
 
   const copyToClipboard = () => {
     if (result?.text) {
@@ -23,44 +39,75 @@ export default function ResultDisplay({ result, isLoading, onBack }: ResultDispl
     }
   };
 
-  const downloadResult = () => {
-    if (!result) return;
-    
-    const blob = new Blob([
-      `Blood Test Analysis Results\n` +
-      `Provider: ${getProviderLabel(result.provider)}\n` +
-      `Date: ${formatTimestamp(result.timestamp)}\n\n` +
-      result.text
-    ], { type: 'text/plain' });
-    
+  const saveFile = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `bloodq-analysis-${new Date(result.timestamp).toISOString().split('T')[0]}.txt`;
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const formatTimestamp = (timestamp: number) => {
-    return new Date(timestamp).toLocaleString();
+  const getDateStamp = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+  const downloadResult = () => {
+    if (!result) return;
+    
+    const blob = new Blob([
+      `Blood Test Analysis Results\n` +
+      (result.provider ? `Provider: ${getProviderLabel(result.provider)}\nModel: ${result.model}\n` : '') +
+      (result.importedFrom ? `Imported from: ${result.importedFrom}\n` : '') +
+      (result.attempts?.length
+        ? `Failed before it: ${result.attempts.map(attempt => `${getProviderLabel(attempt.provider)} (${attempt.error})`).join(', ')}\n`
+        : '') +
+      `Date: ${formatTimestamp(result.timestamp)}\n` +
+      (result.profile ? `Patient profile:\n${formatProfile(result.profile)}\n` : '') +
+      `\n` +
+      result.text
+    ], { type: 'text/plain' });
+
+    saveFile(blob, `bloodq-analysis-${getDateStamp(result.timestamp)}.txt`);
   };
 
-  const getProviderLabel = (provider: string) => {
-    switch(provider) {
-      case 'gemini': return 'Google Gemini';
-      case 'openai': return 'OpenAI ChatGPT';
-      case 'claude': return 'Anthropic Claude';
-      default: return provider;
-    }
+  // The extracted values as a FHIR R4 Bundle, for other health tools
+  const downloadFhir = () => {
+    if (!result) return;
+
+    const blob = new Blob([JSON.stringify(toFhirBundle(result), null, 2)], { type: 'application/fhir+json' });
+    saveFile(blob, `bloodq-fhir-${getDateStamp(result.timestamp)}.json`);
+  };
+
+  // Opens the print dialog, where the report can be saved as a PDF
+  const downloadPdf = () => {
+    if (!result) return;
+
+    const title = `bloodq-report-${getDateStamp(result.timestamp)}`;
+    printDocument(title, <PrintableReport result={result} thumbnail={thumbnail} unitSystem={unitSystem} />, REPORT_STYLES)
+      .catch(error => console.error('Failed to print the report:', error));
+  };
+
+  const formatTimestamp = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString();
   };
 
-  const getProviderIcon = (provider: string) => {
+  const getProviderIcon = (provider?: string) => {
     return <FaRobot className="text-highlight" />;
   };
 
-  if (isLoading) {
+  const cancelButton = onCancel && (
+    <motion.button
+      whileHover={{ scale: 1.05 }}
+      whileTap={{ scale: 0.95 }}
+      onClick={onCancel}
+      className="px-4 py-2 rounded-md bg-gray-800 hover:bg-gray-700 text-sm flex items-center gap-2 transition-colors"
+    >
+      <FaStop className="text-red-400" /> Cancel
+    </motion.button>
+  );
+
+  if (isLoading && !streamingText) {
     return (
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
@@ -71,6 +118,32 @@ export default function ResultDisplay({ result, isLoading, onBack }: ResultDispl
           <div className="w-12 h-12 border-4 border-highlight border-t-transparent rounded-full animate-spin"></div>
           <p className="text-text-secondary">Analyzing your blood test results...</p>
           <p className="text-xs text-text-secondary">This may take a moment</p>
+          {cancelButton}
+        </div>
+      </motion.div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="card p-6 w-full"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <div className="w-5 h-5 border-2 border-highlight border-t-transparent rounded-full animate-spin"></div>
+            <p className="text-text-secondary">Writing the analysis...</p>
+          </div>
+          {cancelButton}
+        </div>
+        <div className="bg-gray-900 rounded-lg p-4 overflow-auto max-h-[500px] border border-gray-800">
+          <div className="whitespace-pre-wrap font-mono text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
+            <ReactMarkdown>
+              {stripBiomarkerBlock(streamingText || '')}
+            </ReactMarkdown>
+          </div>
         </div>
       </motion.div>
     );
@@ -93,8 +166,21 @@ export default function ResultDisplay({ result, isLoading, onBack }: ResultDispl
           <div>
             <h3 className="text-xl font-semibold highlight">Analysis Results</h3>
             <p className="text-sm text-text-secondary">
-              Analyzed by {getProviderLabel(result.provider)} on {formatTimestamp(result.timestamp)}
+              {result.provider
+                ? `Analyzed by ${getProviderLabel(result.provider)} (${result.model}) on ${formatTimestamp(result.timestamp)}`
+                : `Dated ${formatTimestamp(result.timestamp)}`}
+              {result.importedFrom && `, imported from a ${result.importedFrom}`}
             </p>
+            {result.attempts && result.attempts.length > 0 && (
+              <p className="text-xs text-yellow-300">
+                After {result.attempts.map((attempt, index) => (
+                  <span key={attempt.provider} title={attempt.error}>
+                    {index > 0 && ', '}
+                    {getProviderLabel(attempt.provider)} failed{attempt.status ? ` (${attempt.status})` : ''}
+                  </span>
+                ))}
+              </p>
+            )}
           </div>
         </div>
         <div className="flex space-x-2">
@@ -116,6 +202,26 @@ export default function ResultDisplay({ result, isLoading, onBack }: ResultDispl
           >
             <FaFileDownload className="text-gray-400" />
           </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={downloadPdf}
+            className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full transition-colors"
+            title="Save as PDF report"
+          >
+            <FaFilePdf className="text-gray-400" />
+          </motion.button>
+          {result.biomarkers.length > 0 && (
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={downloadFhir}
+              className="p-2 bg-gray-800 hover:bg-gray-700 rounded-full transition-colors"
+              title="Export values as FHIR R4"
+            >
+              <FaFileMedical className="text-gray-400" />
+            </motion.button>
+          )}
           <motion.button
             whileHover={{ scale: 1.1 }}
             whileTap={{ scale: 0.9 }}
@@ -131,19 +237,65 @@ export default function ResultDisplay({ result, isLoading, onBack }: ResultDispl
           </motion.button>
         </div>
       </div>
-      
-      <motion.div 
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.2 }}
-        className="bg-gray-900 rounded-lg p-4 overflow-auto max-h-[500px] border border-gray-800"
-      >
-        <div className="whitespace-pre-wrap font-mono text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
-          <ReactMarkdown>
-            {result.text}
-          </ReactMarkdown>
+
+      {result.profile && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.1 }}
+          className="mb-4"
+        >
+          <ProfileNotes profile={result.profile} notes={result.profileNotes || []} />
+        </motion.div>
+      )}
+
+      {(result.biomarkers.length > 0 || (result.changes && result.changes.length > 0)) && (
+        <div className="flex justify-end mb-2">
+          <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
         </div>
-      </motion.div>
+      )}
+
+      {result.biomarkers.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.1 }}
+          className="mb-4"
+        >
+          <BiomarkerTable biomarkers={result.biomarkers} unitSystem={unitSystem} />
+        </motion.div>
+      )}
+
+      {result.changes && result.changes.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.1 }}
+          className="mb-4"
+        >
+          <ComparisonTable changes={result.changes} unitSystem={unitSystem} />
+        </motion.div>
+      )}
+      
+      {/* Imported results may come with values only */}
+      {result.text && (
+        <motion.div 
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.2 }}
+          className="bg-gray-900 rounded-lg p-4 overflow-auto max-h-[500px] border border-gray-800"
+        >
+          <div className="whitespace-pre-wrap font-mono text-sm prose prose-invert prose-headings:text-highlight prose-strong:text-white prose-a:text-highlight">
+            <ReactMarkdown>
+              {result.text}
+            </ReactMarkdown>
+          </div>
+        </motion.div>
+      )}
+
+      {followUpInput && (
+        <ChatPanel key={result.timestamp} result={result} input={followUpInput} />
+      )}
       
       <div className="mt-4 text-xs text-text-secondary italic">
         Note: This analysis is for informational purposes only and should not replace professional medical advice.
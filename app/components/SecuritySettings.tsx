@@ -0,0 +1,178 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { FaShieldAlt, FaLock, FaTrash } from 'react-icons/fa';
+import { DEFAULT_AUTO_LOCK_MINUTES, getAutoLockMinutes, isVaultEnabled, setAutoLockMinutes, unlockVault } from '../utils/vault';
+import { disableEncryption, enableEncryption, forgetEverything, lock, MIN_PASSPHRASE_LENGTH } from '../utils/security';
+
+const AUTO_LOCK_OPTIONS = [5, 15, 30, 60];
+
+const inputClassName = 'w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200';
+
+// Passphrase encryption controls; they act immediately, independent of "Save Settings"
+export default function SecuritySettings() {
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [autoLock, setAutoLock] = useState(DEFAULT_AUTO_LOCK_MINUTES);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsEnabled(isVaultEnabled());
+    setAutoLock(getAutoLockMinutes());
+  }, []);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      setPassphrase('');
+      setConfirmation('');
+      setIsEnabled(isVaultEnabled());
+    } catch (error) {
+      console.error('Encryption error:', error);
+      setError(error instanceof Error ? error.message : 'Something went wrong');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleEnable = () => run(async () => {
+    if (passphrase !== confirmation) {
+      throw new Error('The passphrases don\'t match');
+    }
+    await enableEncryption(passphrase);
+  });
+
+  // Ask for the passphrase again before storing everything in plain text
+  const handleDisable = () => run(async () => {
+    await unlockVault(passphrase);
+    await disableEncryption();
+  });
+
+  const handleForget = async () => {
+    if (!window.confirm('Erase all settings, API keys, profiles and saved analyses from this browser? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await forgetEverything();
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to erase data:', error);
+      setError('Could not erase the stored data');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+        <FaShieldAlt className="text-highlight" /> Security
+      </h3>
+
+      {isEnabled ? (
+        <div className="space-y-4">
+          <p className="text-xs text-text-secondary">
+            API keys, profiles and saved analyses are encrypted with your passphrase.
+          </p>
+
+          <div>
+            <label htmlFor="auto-lock" className="block text-sm text-text-secondary mb-1">Lock after inactivity</label>
+            <select
+              id="auto-lock"
+              value={autoLock}
+              onChange={(e) => {
+                setAutoLock(Number(e.target.value));
+                setAutoLockMinutes(Number(e.target.value));
+              }}
+              className={inputClassName}
+            >
+              {AUTO_LOCK_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{minutes} minutes</option>
+              ))}
+            </select>
+          </div>
+
+          <motion.button
+            whileHover={{ scale: 1.03 }}
+            whileTap={{ scale: 0.97 }}
+            onClick={lock}
+            className="px-4 py-2 rounded bg-gray-800 text-white text-sm flex items-center gap-2"
+          >
+            <FaLock size={12} /> Lock now
+          </motion.button>
+
+          <div>
+            <label htmlFor="disable-passphrase" className="block text-sm text-text-secondary mb-1">
+              Turn off encryption
+            </label>
+            <div className="flex gap-2">
+              <input
+                id="disable-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Current passphrase"
+                className={inputClassName}
+              />
+              <button
+                onClick={handleDisable}
+                disabled={!passphrase || isWorking}
+                className="px-3 rounded bg-gray-800 text-white text-sm whitespace-nowrap disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-text-secondary">
+            Without a passphrase, API keys and saved analyses are stored unencrypted in this browser.
+            If you forget the passphrase, the encrypted data can&apos;t be recovered.
+          </p>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={`Passphrase, at least ${MIN_PASSPHRASE_LENGTH} characters`}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Repeat passphrase"
+            className={inputClassName}
+          />
+          <motion.button
+            whileHover={passphrase ? { scale: 1.03 } : {}}
+            whileTap={passphrase ? { scale: 0.97 } : {}}
+            onClick={handleEnable}
+            disabled={!passphrase || isWorking}
+            className={`px-4 py-2 rounded text-sm ${passphrase && !isWorking ? 'btn-primary glow-btn' : 'bg-gray-700 cursor-not-allowed'}`}
+          >
+            {isWorking ? 'Encrypting...' : 'Turn on encryption'}
+          </motion.button>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handleForget}
+        disabled={isWorking}
+        className="mt-4 text-xs text-text-secondary hover:text-red-400 flex items-center gap-1"
+      >
+        <FaTrash size={10} /> Forget everything stored in this browser
+      </button>
+    </div>
+  );
+}
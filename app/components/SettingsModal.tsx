@@ -2,13 +2,29 @@
 
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { FaTimes, FaKey, FaLock, FaRobot } from 'react-icons/fa';
-import { LLMProvider } from '../types';
+import { FaTimes, FaKey, FaLock, FaRobot, FaServer, FaBrain, FaUser, FaRedo } from 'react-icons/fa';
+import { ApiKeys, LLMProvider } from '../types';
+import { PROVIDER_ADAPTERS, PROVIDER_IDS } from '../providers';
 import { 
   loadSettings, 
   saveApiKey, 
-  setPreferredProvider 
+  saveBaseUrl,
+  saveModel,
+  saveProfile,
+  saveRetrySettings,
+  getActiveProfile,
+  setPreferredProvider,
+  DEFAULT_MAX_RETRIES
 } from '../utils/settings';
+import FallbackSettings from './FallbackSettings';
+import ModelSelect from './ModelSelect';
+import SecuritySettings from './SecuritySettings';
+import BackupSettings from './BackupSettings';
+import ProfileForm, { ProfileDraft, fromProfileDraft, toProfileDraft } from './ProfileForm';
+
+const CUSTOM_ENDPOINT_PROVIDERS = PROVIDER_IDS.filter(
+  provider => PROVIDER_ADAPTERS[provider].capabilities.customBaseUrl
+);
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -16,28 +32,43 @@ interface SettingsModalProps {
 }
 
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
-  const [geminiKey, setGeminiKey] = useState('');
-  const [openaiKey, setOpenaiKey] = useState('');
-  const [claudeKey, setClaudeKey] = useState('');
+  const [apiKeys, setApiKeys] = useState<ApiKeys>({});
+  const [baseUrls, setBaseUrls] = useState<Partial<Record<LLMProvider, string>>>({});
+  const [models, setModels] = useState<Partial<Record<LLMProvider, string>>>({});
   const [preferredProvider, setPreferredLLM] = useState<LLMProvider>('gemini');
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_MAX_RETRIES);
+  const [fallbacks, setFallbacks] = useState<LLMProvider[]>([]);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft>(toProfileDraft());
+  const [profileName, setProfileName] = useState('');
   const [saveStatus, setSaveStatus] = useState<string | null>(null);
   
-  // Load saved settings
+  // Load saved settings, again after a backup is imported so saving doesn't overwrite it
+  const loadState = () => {
+    const settings = loadSettings();
+    setApiKeys(settings.apiKeys);
+    setBaseUrls(settings.baseUrls || {});
+    setModels(settings.models || {});
+    setPreferredLLM(settings.preferredProvider);
+    setMaxRetries(settings.maxRetries ?? DEFAULT_MAX_RETRIES);
+    setFallbacks(settings.fallbackProviders || []);
+    const activeProfile = getActiveProfile();
+    setProfileName(activeProfile.name);
+    setProfileDraft(toProfileDraft(activeProfile.patient));
+  };
+
   useEffect(() => {
     if (isOpen) {
-      const settings = loadSettings();
-      setGeminiKey(settings.apiKeys.gemini || '');
-      setOpenaiKey(settings.apiKeys.openai || '');
-      setClaudeKey(settings.apiKeys.claude || '');
-      setPreferredLLM(settings.preferredProvider);
+      loadState();
     }
   }, [isOpen]);
 
   const handleSave = () => {
-    saveApiKey('gemini', geminiKey);
-    saveApiKey('openai', openaiKey);
-    saveApiKey('claude', claudeKey);
+    PROVIDER_IDS.forEach(provider => saveApiKey(provider, apiKeys[provider] || ''));
+    PROVIDER_IDS.forEach(provider => saveModel(provider, models[provider] || ''));
+    CUSTOM_ENDPOINT_PROVIDERS.forEach(provider => saveBaseUrl(provider, baseUrls[provider] || ''));
     setPreferredProvider(preferredProvider);
+    saveRetrySettings(maxRetries, fallbacks.filter(provider => provider !== preferredProvider));
+    saveProfile(fromProfileDraft(profileDraft));
     
     // Show success message
     setSaveStatus('Settings saved successfully!');
@@ -47,6 +78,14 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     }, 1500);
   };
 
+  // Fallbacks need the user's own key, or their own endpoint for self-hosted models
+  const isFallbackAvailable = (provider: LLMProvider) => {
+    const adapter = PROVIDER_ADAPTERS[provider];
+    return adapter.capabilities.customBaseUrl
+      ? Boolean(baseUrls[provider]?.trim() && (models[provider]?.trim() || adapter.defaultModel))
+      : Boolean(apiKeys[provider]?.trim());
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -62,7 +101,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             initial={{ opacity: 0, scale: 0.9, y: 20 }}
             animate={{ opacity: 1, scale: 1, y: 0 }}
             exit={{ opacity: 0, scale: 0.9, y: 20 }}
-            className="card w-full max-w-md mx-4 p-6 relative overflow-hidden"
+            className="card w-full max-w-md mx-4 p-6 relative overflow-x-hidden overflow-y-auto max-h-[90vh]"
           >
             {/* Decorative element */}
             <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-highlight to-highlight/50" />
@@ -87,91 +126,125 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 </h3>
                 
                 <div className="space-y-4">
-                  <div>
-                    <label className="block text-sm text-text-secondary mb-1 flex items-center gap-1">
-                      <FaLock size={12} /> Google Gemini API Key
-                    </label>
-                    <motion.input
-                      whileFocus={{ scale: 1.01 }}
-                      type="password"
-                      value={geminiKey}
-                      onChange={(e) => setGeminiKey(e.target.value)}
-                      placeholder="Enter Gemini API key"
-                      className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
-                    />
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm text-text-secondary mb-1 flex items-center gap-1">
-                      <FaLock size={12} /> OpenAI API Key
-                    </label>
-                    <motion.input
-                      whileFocus={{ scale: 1.01 }}
-                      type="password"
-                      value={openaiKey}
-                      onChange={(e) => setOpenaiKey(e.target.value)}
-                      placeholder="Enter OpenAI API key"
-                      className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
-                    />
-                  </div>
-                  
-                  <div>
-                    <label className="block text-sm text-text-secondary mb-1 flex items-center gap-1">
-                      <FaLock size={12} /> Anthropic Claude API Key
-                    </label>
-                    <motion.input
-                      whileFocus={{ scale: 1.01 }}
-                      type="password"
-                      value={claudeKey}
-                      onChange={(e) => setClaudeKey(e.target.value)}
-                      placeholder="Enter Claude API key"
-                      className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
-                    />
+                  {PROVIDER_IDS.map(provider => (
+                    <div key={provider}>
+                      <label className="block text-sm text-text-secondary mb-1 flex items-center gap-1">
+                        <FaLock size={12} /> {PROVIDER_ADAPTERS[provider].keyLabel}
+                      </label>
+                      <motion.input
+                        whileFocus={{ scale: 1.01 }}
+                        type="password"
+                        value={apiKeys[provider] || ''}
+                        onChange={(e) => setApiKeys({ ...apiKeys, [provider]: e.target.value })}
+                        placeholder={`Enter ${PROVIDER_ADAPTERS[provider].shortLabel} API key`}
+                        className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
+              {CUSTOM_ENDPOINT_PROVIDERS.map(provider => (
+                <div key={provider}>
+                  <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+                    <FaServer className="text-highlight" /> {PROVIDER_ADAPTERS[provider].label}
+                  </h3>
+                  <p className="text-xs text-text-secondary mb-3">
+                    Any server speaking the OpenAI chat-completions API with vision, such as Ollama, llama.cpp or vLLM. It must be reachable from the Bloodq server. Choose its model under Models below.
+                  </p>
+
+                  <div className="space-y-4">
+                    <div>
+                      <label className="block text-sm text-text-secondary mb-1">
+                        Server URL
+                      </label>
+                      <motion.input
+                        whileFocus={{ scale: 1.01 }}
+                        type="url"
+                        value={baseUrls[provider] || ''}
+                        onChange={(e) => setBaseUrls({ ...baseUrls, [provider]: e.target.value })}
+                        placeholder="http://localhost:11434/v1"
+                        className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+                      />
+                    </div>
                   </div>
                 </div>
+              ))}
+              
+              <div>
+                <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+                  <FaBrain className="text-highlight" /> Models
+                </h3>
+                <p className="text-xs text-text-secondary mb-3">
+                  The model must accept images. Pick one from the list or enter any other model ID.
+                </p>
+
+                <div className="space-y-4">
+                  {PROVIDER_IDS.map(provider => (
+                    <div key={provider}>
+                      <label className="block text-sm text-text-secondary mb-1">
+                        {PROVIDER_ADAPTERS[provider].label}
+                      </label>
+                      <ModelSelect
+                        provider={provider}
+                        value={models[provider] || ''}
+                        onChange={(model) => setModels({ ...models, [provider]: model })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
+              <div>
+                <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+                  <FaUser className="text-highlight" /> Patient Profile: {profileName}
+                </h3>
+                <p className="text-xs text-text-secondary mb-3">
+                  Reference ranges depend on age, sex, pregnancy and medication. Anything filled in here is sent with every analysis for this profile.
+                </p>
+                <ProfileForm draft={profileDraft} onChange={setProfileDraft} />
               </div>
               
               <div>
                 <h3 className="text-lg font-medium mb-3">Preferred AI Provider</h3>
-                <div className="grid grid-cols-3 gap-2">
-                  <motion.button
-                    whileHover={preferredProvider !== 'gemini' ? { scale: 1.05 } : {}}
-                    whileTap={preferredProvider !== 'gemini' ? { scale: 0.95 } : {}}
-                    className={`p-2 rounded ${
-                      preferredProvider === 'gemini' 
-                        ? 'btn-primary glow-btn' 
-                        : 'bg-gray-800 text-white'
-                    }`}
-                    onClick={() => setPreferredLLM('gemini')}
-                  >
-                    Gemini
-                  </motion.button>
-                  <motion.button
-                    whileHover={preferredProvider !== 'openai' ? { scale: 1.05 } : {}}
-                    whileTap={preferredProvider !== 'openai' ? { scale: 0.95 } : {}}
-                    className={`p-2 rounded ${
-                      preferredProvider === 'openai' 
-                        ? 'btn-primary glow-btn' 
-                        : 'bg-gray-800 text-white'
-                    }`}
-                    onClick={() => setPreferredLLM('openai')}
-                  >
-                    OpenAI
-                  </motion.button>
-                  <motion.button
-                    whileHover={preferredProvider !== 'claude' ? { scale: 1.05 } : {}}
-                    whileTap={preferredProvider !== 'claude' ? { scale: 0.95 } : {}}
-                    className={`p-2 rounded ${
-                      preferredProvider === 'claude' 
-                        ? 'btn-primary glow-btn' 
-                        : 'bg-gray-800 text-white'
-                    }`}
-                    onClick={() => setPreferredLLM('claude')}
-                  >
-                    Claude
-                  </motion.button>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  {PROVIDER_IDS.map(provider => (
+                    <motion.button
+                      key={provider}
+                      whileHover={preferredProvider !== provider ? { scale: 1.05 } : {}}
+                      whileTap={preferredProvider !== provider ? { scale: 0.95 } : {}}
+                      className={`p-2 rounded ${
+                        preferredProvider === provider 
+                          ? 'btn-primary glow-btn' 
+                          : 'bg-gray-800 text-white'
+                      }`}
+                      onClick={() => setPreferredLLM(provider)}
+                    >
+                      {PROVIDER_ADAPTERS[provider].shortLabel}
+                    </motion.button>
+                  ))}
                 </div>
               </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-3 flex items-center gap-2">
+                  <FaRedo className="text-highlight" /> Retries &amp; Fallback
+                </h3>
+                <FallbackSettings
+                  preferredProvider={preferredProvider}
+                  maxRetries={maxRetries}
+                  fallbacks={fallbacks}
+                  isAvailable={isFallbackAvailable}
+                  onChange={(retries, providers) => {
+                    setMaxRetries(retries);
+                    setFallbacks(providers);
+                  }}
+                />
+              </div>
+
+              <SecuritySettings />
+
+              <BackupSettings onImported={loadState} />
             </div>
             
             <div className="mt-8 flex justify-end space-x-3">
@@ -0,0 +1,31 @@
+'use client';
+
+import { ReportPage } from '../types';
+import { getTransmittedPages } from '../utils/redaction';
+
+// Every page image and text layer exactly as it will be sent to the provider
+export default function TransmissionPreview({ pages }: { pages: ReportPage[] }) {
+  const transmitted = getTransmittedPages(pages);
+
+  return (
+    <div className="space-y-4 p-3 bg-gray-900 rounded-lg border border-gray-800">
+      {transmitted.map((page, index) => (
+        <div key={page.id}>
+          <p className="text-sm font-medium mb-2">
+            Page {index + 1}
+            {pages[index].redactions?.length
+              ? <span className="ml-2 text-xs highlight">{pages[index].redactions!.length} redacted</span>
+              : <span className="ml-2 text-xs text-yellow-300">not redacted</span>}
+          </p>
+          <img src={page.image} alt={`Page ${index + 1} as sent`} className="w-full rounded border border-gray-800" />
+          {page.text && (
+            <details className="mt-2 text-xs text-text-secondary">
+              <summary className="cursor-pointer">Text sent with this page</summary>
+              <p className="mt-1 whitespace-pre-wrap">{page.text}</p>
+            </details>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
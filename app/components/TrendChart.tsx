@@ -0,0 +1,101 @@
+'use client';
+
+import { TrendPoint, ReferenceRange } from '../types';
+
+interface TrendChartProps {
+  points: TrendPoint[]; // oldest first
+  unit: string;
+  referenceRange?: ReferenceRange;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+const flagColors = {
+  high: '#f87171',
+  low: '#60a5fa',
+  normal: '#D3FB18'
+};
+
+const formatNumber = (value: number) => {
+  return Math.abs(value) >= 100 ? value.toFixed(0) : Number(value.toPrecision(3)).toString();
+};
+
+export default function TrendChart({ points, unit, referenceRange }: TrendChartProps) {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const values = points.map(point => point.value);
+  const bounds = [...values, referenceRange?.low, referenceRange?.high]
+    .filter((value): value is number => value !== undefined);
+  let min = Math.min(...bounds);
+  let max = Math.max(...bounds);
+  // Leave some room around the data, and give a flat line a visible range
+  const margin = (max - min) * 0.1 || Math.abs(max) * 0.1 || 1;
+  min -= margin;
+  max += margin;
+
+  const times = points.map(point => point.timestamp);
+  const firstTime = Math.min(...times);
+  const lastTime = Math.max(...times);
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+  const x = (timestamp: number) => {
+    if (lastTime === firstTime) return PADDING.left + plotWidth / 2;
+    return PADDING.left + ((timestamp - firstTime) / (lastTime - firstTime)) * plotWidth;
+  };
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const bandTop = y(referenceRange?.high ?? max);
+  const bandBottom = y(referenceRange?.low ?? min);
+  const hasBand = referenceRange?.low !== undefined || referenceRange?.high !== undefined;
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.timestamp)},${y(point.value)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Trend in ${unit}`}>
+      {hasBand && (
+        <rect
+          x={PADDING.left}
+          y={bandTop}
+          width={plotWidth}
+          height={Math.max(0, bandBottom - bandTop)}
+          fill="rgba(74, 222, 128, 0.12)"
+          stroke="rgba(74, 222, 128, 0.35)"
+          strokeDasharray="4 4"
+        />
+      )}
+
+      {/* Axes */}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} stroke="#374151" />
+      <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} stroke="#374151" />
+      <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" fontSize="11" fill="#aaaaaa">{formatNumber(max)}</text>
+      <text x={PADDING.left - 6} y={HEIGHT - PADDING.bottom} textAnchor="end" fontSize="11" fill="#aaaaaa">{formatNumber(min)}</text>
+      <text x={PADDING.left} y={HEIGHT - 8} fontSize="11" fill="#aaaaaa">{new Date(firstTime).toLocaleDateString()}</text>
+      {lastTime !== firstTime && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="#aaaaaa">
+          {new Date(lastTime).toLocaleDateString()}
+        </text>
+      )}
+
+      <path d={path} fill="none" stroke="#D3FB18" strokeWidth="2" />
+      {points.map(point => (
+        <circle
+          key={`${point.recordId}-${point.timestamp}`}
+          cx={x(point.timestamp)}
+          cy={y(point.value)}
+          r="4"
+          fill={flagColors[point.flag]}
+        >
+          <title>{`${new Date(point.timestamp).toLocaleDateString()}: ${formatNumber(point.value)} ${unit}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { FaArrowLeft, FaSearch, FaArrowUp, FaArrowDown, FaMinus, FaChevronDown, FaChevronUp } from 'react-icons/fa';
+import { AnalysisRecord, BiomarkerTrend } from '../types';
+import { listAnalyses } from '../utils/history';
+import { buildTrends } from '../utils/trends';
+import TrendChart from './TrendChart';
+import UnitSystemToggle, { useUnitSystem } from './UnitSystemToggle';
+
+interface TrendsPanelProps {
+  onBack: () => void;
+}
+
+// Converted values can carry floating point noise
+const round = (value: number) => Number(value.toPrecision(4));
+
+// Not every report prints a range, so use the most recent one that did
+const getLatestRange = (trend: BiomarkerTrend) => {
+  return [...trend.points].reverse().find(point => point.referenceRange)?.referenceRange;
+};
+
+const formatRange = (trend: BiomarkerTrend) => {
+  const range = getLatestRange(trend);
+  if (!range || (range.low === undefined && range.high === undefined)) return null;
+  if (range.low !== undefined && range.high !== undefined) return `${round(range.low)} - ${round(range.high)} ${trend.unit}`;
+  return range.low !== undefined ? `> ${round(range.low)} ${trend.unit}` : `< ${round(range.high as number)} ${trend.unit}`;
+};
+
+function TrendCard({ trend }: { trend: BiomarkerTrend }) {
+  const [showPoints, setShowPoints] = useState(false);
+
+  const latest = trend.points[trend.points.length - 1];
+  const previous = trend.points[trend.points.length - 2];
+  const change = latest && previous ? latest.value - previous.value : 0;
+  const range = formatRange(trend);
+
+  return (
+    <div className="p-4 bg-gray-900 rounded-lg border border-gray-800">
+      <div className="flex items-start justify-between gap-4 mb-2">
+        <div>
+          <h3 className="font-semibold">{trend.name}</h3>
+          <p className="text-xs text-text-secondary">
+            {trend.points.length} {trend.points.length === 1 ? 'measurement' : 'measurements'}
+            {range && ` · Reference ${range}`}
+          </p>
+        </div>
+        {latest && (
+          <div className="text-right">
+            <p className="font-mono">{round(latest.value)} {trend.unit}</p>
+            {previous && (
+              <p className="text-xs text-text-secondary flex items-center justify-end gap-1">
+                {change > 0 ? <FaArrowUp size={10} /> : change < 0 ? <FaArrowDown size={10} /> : <FaMinus size={10} />}
+                {Number(Math.abs(change).toPrecision(3))} since {new Date(previous.timestamp).toLocaleDateString()}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <TrendChart points={trend.points} unit={trend.unit} referenceRange={getLatestRange(trend)} />
+
+      <button
+        onClick={() => setShowPoints(!showPoints)}
+        className="mt-2 text-xs text-text-secondary hover:text-white flex items-center gap-1"
+      >
+        {showPoints ? <FaChevronUp size={10} /> : <FaChevronDown size={10} />}
+        {showPoints ? 'Hide data points' : 'Show data points'}
+      </button>
+
+      {showPoints && (
+        <table className="w-full text-xs mt-2">
+          <thead className="text-text-secondary">
+            <tr>
+              <th className="text-left p-1 font-medium">Date</th>
+              <th className="text-left p-1 font-medium">Report</th>
+              <th className="text-left p-1 font-medium">Value ({trend.unit})</th>
+              <th className="text-left p-1 font-medium">As reported</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...trend.points].reverse().map(point => (
+              <tr key={`${point.recordId}-${point.timestamp}`} className="border-t border-gray-800">
+                <td className="p-1">{new Date(point.timestamp).toLocaleDateString()}</td>
+                <td className="p-1 truncate max-w-[10rem]">{point.recordTitle}</td>
+                <td className="p-1 font-mono">{round(point.value)}</td>
+                <td className="p-1 text-text-secondary">{point.originalValue} {point.originalUnit}</td>
+              </tr>
+            ))}
+            {trend.skipped.map(point => (
+              <tr key={`skipped-${point.recordId}-${point.timestamp}`} className="border-t border-gray-800 text-text-secondary">
+                <td className="p-1">{new Date(point.timestamp).toLocaleDateString()}</td>
+                <td className="p-1 truncate max-w-[10rem]">{point.recordTitle}</td>
+                <td className="p-1 italic">not plotted</td>
+                <td className="p-1">{point.originalValue} {point.originalUnit} (unit can&apos;t be converted)</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function TrendsPanel({ onBack }: TrendsPanelProps) {
+  const [records, setRecords] = useState<AnalysisRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [unitSystem, setUnitSystem] = useUnitSystem();
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setRecords)
+      .catch(error => {
+        console.error('Failed to load trends:', error);
+        setError('Could not load your analysis history');
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const trends = useMemo(() => buildTrends(records, unitSystem), [records, unitSystem]);
+  const needle = query.trim().toLowerCase();
+  const filtered = needle ? trends.filter(trend => trend.name.toLowerCase().includes(needle)) : trends;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3 mb-4">
+        <motion.button
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+          onClick={onBack}
+          className="p-2 rounded-full settings-btn"
+          title="Back to image upload"
+        >
+          <FaArrowLeft />
+        </motion.button>
+        <div className="relative flex-1">
+          <FaSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" size={12} />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Find a biomarker, e.g. LDL or ferritin..."
+            className="w-full bg-background border border-gray-700 rounded pl-8 p-2 text-white text-sm focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+          />
+        </div>
+        <UnitSystemToggle value={unitSystem} onChange={setUnitSystem} />
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center p-6">
+          <div className="w-8 h-8 border-4 border-highlight border-t-transparent rounded-full animate-spin"></div>
+        </div>
+      ) : filtered.length === 0 ? (
+        <p className="text-center text-text-secondary p-6">
+          {trends.length === 0
+            ? 'No values to chart yet. Trends appear once your analyses contain extracted values.'
+            : 'No biomarkers match your search.'}
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {filtered.map(trend => (
+            <motion.div key={trend.key} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+              <TrendCard trend={trend} />
+            </motion.div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
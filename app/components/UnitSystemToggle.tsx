@@ -0,0 +1,46 @@
+'use client';
+
+import { useState } from 'react';
+import { UnitSystem } from '../types';
+import { getUnitSystem, saveUnitSystem } from '../utils/settings';
+
+interface UnitSystemToggleProps {
+  value?: UnitSystem;
+  onChange: (system?: UnitSystem) => void;
+}
+
+const OPTIONS: { value?: UnitSystem; label: string; title: string }[] = [
+  { label: 'As reported', title: 'Units as printed on the report' },
+  { value: 'si', label: 'SI', title: 'e.g. glucose in mmol/L, hemoglobin in g/L' },
+  { value: 'conventional', label: 'Conventional', title: 'e.g. glucose in mg/dL, hemoglobin in g/dL' }
+];
+
+// The saved unit system, changing it saves the preference for every table and chart
+export const useUnitSystem = () => {
+  const [unitSystem, setUnitSystem] = useState<UnitSystem | undefined>(getUnitSystem);
+
+  const changeUnitSystem = (system?: UnitSystem) => {
+    setUnitSystem(system);
+    saveUnitSystem(system);
+  };
+
+  return [unitSystem, changeUnitSystem] as const;
+};
+
+export default function UnitSystemToggle({ value, onChange }: UnitSystemToggleProps) {
+  return (
+    <div className="inline-flex rounded border border-gray-700 overflow-hidden text-xs" role="group" aria-label="Units">
+      {OPTIONS.map(option => (
+        <button
+          key={option.label}
+          onClick={() => onChange(option.value)}
+          title={option.title}
+          aria-pressed={value === option.value}
+          className={`px-3 py-1 transition-colors duration-200 ${value === option.value ? 'bg-highlight/20 text-highlight' : 'text-text-secondary hover:text-white'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { FaLock, FaUnlock } from 'react-icons/fa';
+import { getAutoLockMinutes, isVaultEnabled, isVaultUnlocked, onVaultChange } from '../utils/vault';
+import { forgetEverything, lock, unlock } from '../utils/security';
+
+type VaultStatus = 'checking' | 'locked' | 'unlocked';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'scroll'];
+
+// Only renders the app once stored data can be read, and locks it again after inactivity
+export default function VaultGate({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<VaultStatus>('checking');
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => {
+      setIsEnabled(isVaultEnabled());
+      setStatus(isVaultEnabled() && !isVaultUnlocked() ? 'locked' : 'unlocked');
+    };
+    update();
+    return onVaultChange(update);
+  }, []);
+
+  // Lock after the configured minutes without any input
+  useEffect(() => {
+    if (status !== 'unlocked' || !isEnabled) return;
+
+    let lastActivity = Date.now();
+    const markActive = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity > getAutoLockMinutes() * 60 * 1000) {
+        lock();
+      }
+    }, 30 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(interval);
+    };
+  }, [status, isEnabled]);
+
+  const handleUnlock = async () => {
+    if (!passphrase || isUnlocking) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(passphrase);
+      setPassphrase('');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not unlock your data');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleForget = async () => {
+    if (!window.confirm('Erase all settings, API keys, profiles and saved analyses from this browser? This cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await forgetEverything();
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to erase data:', error);
+      setError('Could not erase the stored data');
+    }
+  };
+
+  if (status === 'unlocked') {
+    return <>{children}</>;
+  }
+
+  if (status === 'checking') {
+    return <main className="min-h-screen bg-gradient-to-b from-background to-card-bg" />;
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-b from-background to-card-bg">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="card w-full max-w-sm p-6"
+      >
+        <h1 className="text-3xl font-bold highlight glow inline-block mb-1">Bloodq</h1>
+        <p className="text-text-secondary text-sm mb-6 flex items-center gap-2">
+          <FaLock size={12} /> Your data is encrypted. Enter your passphrase to unlock it.
+        </p>
+
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleUnlock();
+          }}
+          placeholder="Passphrase"
+          className="w-full bg-background border border-gray-700 rounded p-2 text-white focus:border-highlight focus:ring-1 focus:ring-highlight/30 transition-all duration-200"
+        />
+
+        {error && (
+          <div className="mt-3 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200 text-sm">
+            {error}
+          </div>
+        )}
+
+        <motion.button
+          whileHover={passphrase ? { scale: 1.03 } : {}}
+          whileTap={passphrase ? { scale: 0.97 } : {}}
+          onClick={handleUnlock}
+          disabled={!passphrase || isUnlocking}
+          className={`mt-4 w-full px-4 py-2 rounded-md flex items-center justify-center gap-2 ${passphrase && !isUnlocking ? 'btn-primary glow-btn' : 'bg-gray-700 cursor-not-allowed'}`}
+        >
+          <FaUnlock size={12} /> {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </motion.button>
+
+        <button
+          onClick={handleForget}
+          className="mt-6 w-full text-xs text-text-secondary hover:text-red-400"
+        >
+          Forgot your passphrase? Erase all data and start over
+        </button>
+      </motion.div>
+    </main>
+  );
+}
@@ -1,48 +1,94 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { FaCog, FaLightbulb, FaQuestionCircle } from 'react-icons/fa';
+import { useState, useEffect, useRef } from 'react';
+import { FaBalanceScale, FaChartLine, FaCog, FaHistory, FaLightbulb, FaQuestionCircle } from 'react-icons/fa';
 import { motion } from 'framer-motion';
 import FileUploader from './components/FileUploader';
 import ResultDisplay from './components/ResultDisplay';
 import SettingsModal from './components/SettingsModal';
-import { AnalysisResult, LLMProvider } from './types';
+import HistoryPanel from './components/HistoryPanel';
+import TrendsPanel from './components/TrendsPanel';
+import ComparePanel, { CompareState, emptyCompareState } from './components/ComparePanel';
+import ProfileSwitcher from './components/ProfileSwitcher';
+import ProfilesModal from './components/ProfilesModal';
+import ConsensusView from './components/ConsensusView';
+import ErrorMessage from './components/ErrorMessage';
+import { AnalysisInput, AnalysisRecord, AnalysisResult, ComparisonReport, ConsensusAnswer, HouseholdProfile, LLMProvider, QuotaStatus, ReportPage } from './types';
 import { 
   getPreferredProvider, 
-  getApiKey, 
+  getModel,
+  getActiveProfileId,
+  getHouseholdProfiles,
+  setActiveProfile,
   hasAnyApiKey,
   hasProviderApiKey,
+  getAvailableProviders,
+  isProviderConfigured,
   loadSettings,
-  getRemainingImageCount,
-  trackImageProcessed,
-  getResetTimeRemaining
 } from './utils/settings';
+import { requestAnalysis } from './utils/analyze';
+import { describeError, ErrorDescription } from './utils/errors';
+import { getProvider, getProviderLabel } from './providers';
+import { saveAnalysis } from './utils/history';
+import { createThumbnail } from './utils/image';
+import { getTransmittedPages } from './utils/redaction';
+import { getPagesText } from './utils/pdf';
+import { fetchQuota } from './utils/quota';
+
+type View = 'upload' | 'results' | 'history' | 'trends' | 'compare' | 'consensus';
+
+const VIEW_TITLES: Record<View, string> = {
+  upload: 'Upload Blood Test',
+  results: 'Analysis Results',
+  history: 'Analysis History',
+  trends: 'Biomarker Trends',
+  compare: 'Compare Reports',
+  consensus: 'Second Opinion'
+};
 
 export default function Home() {
-  const [imageBase64, setImageBase64] = useState<string>('');
+  const [pages, setPages] = useState<ReportPage[]>([]);
   const [contextText, setContextText] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [streamingText, setStreamingText] = useState<string>('');
+  const [resultInput, setResultInput] = useState<AnalysisInput | null>(null);
+  const [resultThumbnail, setResultThumbnail] = useState<string | undefined>();
   const [showSettings, setShowSettings] = useState<boolean>(false);
   const [provider, setProvider] = useState<LLMProvider>('gemini');
   const [hasApiKey, setHasApiKey] = useState<boolean>(false);
-  const [showResults, setShowResults] = useState<boolean>(false);
-  const [remainingImages, setRemainingImages] = useState<number>(2);
-  const [resetTime, setResetTime] = useState<number>(0);
+  const [consensusProviders, setConsensusProviders] = useState<LLMProvider[]>([]);
+  const [consensusAnswers, setConsensusAnswers] = useState<ConsensusAnswer[]>([]);
+  const [view, setView] = useState<View>('upload');
+  const [compareState, setCompareState] = useState<CompareState>(emptyCompareState);
+  const [profiles, setProfiles] = useState<HouseholdProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string>('');
+  const [showProfiles, setShowProfiles] = useState<boolean>(false);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // What the consensus answers were made from, for saving one of them later
+  const consensusInputRef = useRef<AnalysisInput | null>(null);
 
   // Load settings on initial render
   useEffect(() => {
     const settings = loadSettings();
     setProvider(settings.preferredProvider);
     setHasApiKey(hasAnyApiKey());
-    updateRemainingImages();
+    setConsensusProviders(getAvailableProviders());
+    setProfiles(getHouseholdProfiles());
+    setActiveProfileId(getActiveProfileId());
+    refreshQuota(settings.preferredProvider);
   }, []);
 
-  // Update remaining image count
-  const updateRemainingImages = () => {
-    setRemainingImages(getRemainingImageCount(provider));
-    setResetTime(getResetTimeRemaining());
+  // Load what is left of the server key's quota, the server enforces it
+  const refreshQuota = async (forProvider: LLMProvider = provider) => {
+    try {
+      setQuota(await fetchQuota(forProvider));
+    } catch (error) {
+      console.error('Failed to load quota:', error);
+      setQuota(null);
+    }
   };
 
   // Format time remaining until reset
@@ -57,74 +103,251 @@ export default function Home() {
     setShowSettings(false);
     setProvider(getPreferredProvider());
     setHasApiKey(hasAnyApiKey());
+    setConsensusProviders(getAvailableProviders());
+    refreshQuota(getPreferredProvider());
+    setProfiles(getHouseholdProfiles());
   };
 
-  const handleAnalyze = async () => {
-    if (!imageBase64) {
-      setError('Please upload an image first');
-      return;
+  // Start over for another person, nothing of the previous profile stays on screen
+  const showProfile = (id: string) => {
+    setActiveProfileId(id);
+    setPages([]);
+    setContextText('');
+    setResult(null);
+    setResultInput(null);
+    setCompareState(emptyCompareState);
+    setError(null);
+    setView('upload');
+  };
+
+  const handleSwitchProfile = (id: string) => {
+    setActiveProfile(id);
+    showProfile(id);
+  };
+
+  // Profiles were added, renamed or deleted; deleting the active one activates another
+  const handleProfilesChange = () => {
+    setProfiles(getHouseholdProfiles());
+    const id = getActiveProfileId();
+    if (id !== activeProfileId) {
+      setActiveProfile(id);
+      showProfile(id);
+    }
+  };
+
+  // Show a finished analysis and keep it in the history
+  const handleResult = async (analysisResult: AnalysisResult) => {
+    setResult(analysisResult);
+
+    try {
+      const thumbnail = pages.length > 0 ? await createThumbnail(getTransmittedPages(pages)[0].image) : undefined;
+      setResultThumbnail(thumbnail);
+      await saveAnalysis(analysisResult, {
+        thumbnail,
+        contextText: contextText.trim() || undefined
+      });
+    } catch (error) {
+      // The result is still shown, it just won't appear in the history
+      console.error('Failed to save analysis to history:', error);
     }
+  };
 
-    // Check if user has reached the limit (skip check if using own API key)
-    const trackResult = trackImageProcessed(provider);
-    if (!trackResult.success) {
-      setError(`You've reached the limit of 2 images in 24 hours. Try again in ${formatTimeRemaining(resetTime)}.`);
-      return;
+  // Check the provider can be used and the quota isn't used up
+  const checkCanAnalyze = (): boolean => {
+    if (!isProviderConfigured(provider)) {
+      setError({ message: `Set the server URL and model for ${getProviderLabel(provider)} in settings first`, action: 'settings' });
+      return false;
+    }
+
+    if (isQuotaUsedUp()) {
+      setError({ message: `You've reached the limit of ${quota?.limit} analyses. Try again in ${formatTimeRemaining(getResetTime())}.` });
+      return false;
     }
 
+    return true;
+  };
+
+  // Send a request to the analyze API and follow its progress on the results view.
+  // Errors send the user back to `returnView`.
+  const runAnalysis = async (
+    input: AnalysisInput,
+    onDone: (result: AnalysisResult) => Promise<void>,
+    returnView: View
+  ) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     setIsLoading(true);
     setError(null);
-    setShowResults(true);
+    setResult(null);
+    setResultThumbnail(undefined);
+    setStreamingText('');
+    setView('results');
     
     try {
-      const userApiKey = getApiKey(provider);
-      
-      const response = await fetch('/api/analyze', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(provider === 'gemini' && userApiKey && { 'x-gemini-key': userApiKey }),
-          ...(provider === 'openai' && userApiKey && { 'x-openai-key': userApiKey }),
-          ...(provider === 'claude' && userApiKey && { 'x-claude-key': userApiKey }),
-        },
-        body: JSON.stringify({
-          imageBase64,
-          contextText: contextText.trim() || undefined,
-          provider
-        })
+      const analysisResult = await requestAnalysis(provider, input, {
+        signal: abortController.signal,
+        onDelta: setStreamingText
       });
-
-      const data = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to analyze blood test');
-      }
-      
-      setResult(data.result);
-      updateRemainingImages();
+      setResultInput(input);
+      await onDone(analysisResult);
     } catch (error) {
-      console.error('Analysis error:', error);
-      setError(error instanceof Error ? error.message : 'An unknown error occurred');
+      if (abortController.signal.aborted) {
+        setError({ message: 'Analysis cancelled' });
+      } else {
+        console.error('Analysis error:', error);
+        setError(describeError(error));
+      }
+      // Errors are shown on the view the request was started from
+      setView(returnView);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
+      refreshQuota();
     }
   };
 
-  const handleBackToUpload = () => {
-    setShowResults(false);
+  const handleAnalyze = async () => {
+    if (pages.length === 0) {
+      setError({ message: 'Please upload an image first' });
+      return;
+    }
+
+    if (!checkCanAnalyze()) {
+      return;
+    }
+
+    // Only the redacted pages leave the browser
+    const transmitted = getTransmittedPages(pages);
+    await runAnalysis({
+      images: transmitted.map(page => page.image),
+      reportText: getPagesText(transmitted),
+      contextText: contextText.trim() || undefined
+    }, handleResult, 'upload');
   };
 
-  const getProviderLabel = (providerName: LLMProvider) => {
-    switch(providerName) {
-      case 'gemini': return 'Google Gemini';
-      case 'openai': return 'OpenAI ChatGPT';
-      case 'claude': return 'Anthropic Claude';
+  // Send the report to every provider the user has a key for, each answering on its own
+  const handleConsensus = async () => {
+    if (pages.length === 0 || consensusProviders.length < 2) {
+      return;
     }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const transmitted = getTransmittedPages(pages);
+    const input: AnalysisInput = {
+      images: transmitted.map(page => page.image),
+      reportText: getPagesText(transmitted),
+      contextText: contextText.trim() || undefined
+    };
+    consensusInputRef.current = input;
+
+    const update = (provider: LLMProvider, changes: Partial<ConsensusAnswer>) => {
+      setConsensusAnswers(answers => answers.map(answer => answer.provider === provider ? { ...answer, ...changes } : answer));
+    };
+
+    setIsLoading(true);
+    setError(null);
+    setConsensusAnswers(consensusProviders.map(provider => ({ provider, status: 'running' })));
+    setView('consensus');
+
+    await Promise.all(consensusProviders.map(async provider => {
+      try {
+        const result = await requestAnalysis(provider, input, {
+          signal: abortController.signal,
+          onDelta: (text) => update(provider, { streamingText: text }),
+          useFallbacks: false
+        });
+        update(provider, { status: 'done', result });
+      } catch (error) {
+        update(provider, {
+          status: 'failed',
+          error: abortController.signal.aborted ? 'Cancelled' : describeError(error).message
+        });
+      }
+    }));
+
+    abortControllerRef.current = null;
+    setIsLoading(false);
+  };
+
+  // Consensus answers disagree by design, so none is saved on its own; the user keeps the one they trust
+  const handleSaveConsensusAnswer = async (answer: ConsensusAnswer) => {
+    const input = consensusInputRef.current;
+    if (!answer.result || !input || answer.saveStatus === 'saving' || answer.saveStatus === 'saved') {
+      return;
+    }
+
+    const setSaveStatus = (saveStatus: ConsensusAnswer['saveStatus']) => {
+      setConsensusAnswers(answers => answers.map(item => item.provider === answer.provider ? { ...item, saveStatus } : item));
+    };
+
+    setSaveStatus('saving');
+    try {
+      const thumbnail = input.images.length > 0 ? await createThumbnail(input.images[0]) : undefined;
+      await saveAnalysis(answer.result, { thumbnail, contextText: input.contextText });
+      setSaveStatus('saved');
+    } catch (error) {
+      console.error('Failed to save analysis to history:', error);
+      setSaveStatus('failed');
+    }
+  };
+
+  // Comparisons have no values of their own, so they show up in the history but not in the trends
+  const handleCompare = async (reports: ComparisonReport[], compareContext?: string) => {
+    if (!checkCanAnalyze()) {
+      return;
+    }
+
+    await runAnalysis({
+      mode: 'compare',
+      images: [],
+      reports,
+      contextText: compareContext
+    }, async (comparisonResult) => {
+      setResult(comparisonResult);
+      try {
+        await saveAnalysis(comparisonResult, {
+          title: 'Report comparison',
+          contextText: compareContext
+        });
+      } catch (error) {
+        // The comparison is still shown, it just won't appear in the history
+        console.error('Failed to save comparison to history:', error);
+      }
+    }, 'compare');
+  };
+
+  // Abort the request, the server then aborts the upstream provider call
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleBackToUpload = () => {
+    setView('upload');
+  };
+
+  const handleOpenRecord = (record: AnalysisRecord) => {
+    setResult(record.result);
+    setResultThumbnail(record.thumbnail);
+    // The images aren't kept, follow-up questions rely on the saved answer
+    setResultInput({ images: [], contextText: record.contextText });
+    setStreamingText('');
+    setView('results');
   };
 
   // Check if limit applies for current provider
   const isLimitApplied = (): boolean => {
-    return !hasProviderApiKey(provider);
+    return quota?.limited === true;
+  };
+
+  const isQuotaUsedUp = (): boolean => {
+    return isLimitApplied() && quota?.remaining === 0;
+  };
+
+  const getResetTime = (): number => {
+    return quota?.resetAt ? Math.max(0, quota.resetAt - Date.now()) : 0;
   };
 
   return (
@@ -148,18 +371,59 @@ export default function Home() {
           </p>
         </motion.div>
         
-        <motion.button 
+        <motion.div
           initial={{ x: 20, opacity: 0 }}
           animate={{ x: 0, opacity: 1 }}
           transition={{ delay: 0.1 }}
-          onClick={() => setShowSettings(true)}
-          className="p-3 rounded-full settings-btn"
-          aria-label="Settings"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
+          className="flex items-center gap-3"
         >
-          <FaCog className="text-xl" />
-        </motion.button>
+          <motion.button 
+            onClick={() => { setError(null); setView('compare'); }}
+            disabled={isLoading}
+            className="p-3 rounded-full settings-btn disabled:opacity-50"
+            aria-label="Compare reports"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <FaBalanceScale className="text-xl" />
+          </motion.button>
+          <motion.button 
+            onClick={() => setView('trends')}
+            disabled={isLoading}
+            className="p-3 rounded-full settings-btn disabled:opacity-50"
+            aria-label="Trends"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <FaChartLine className="text-xl" />
+          </motion.button>
+          <motion.button 
+            onClick={() => setView('history')}
+            disabled={isLoading}
+            className="p-3 rounded-full settings-btn disabled:opacity-50"
+            aria-label="History"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <FaHistory className="text-xl" />
+          </motion.button>
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            disabled={isLoading}
+            onSwitch={handleSwitchProfile}
+            onManage={() => setShowProfiles(true)}
+          />
+          <motion.button 
+            onClick={() => setShowSettings(true)}
+            className="p-3 rounded-full settings-btn"
+            aria-label="Settings"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <FaCog className="text-xl" />
+          </motion.button>
+        </motion.div>
       </header>
       
       <div className="w-full max-w-4xl space-y-8">
@@ -170,12 +434,12 @@ export default function Home() {
           className="card p-6"
         >
           <h2 className="text-2xl font-semibold mb-4">
-            {showResults ? 'Analysis Results' : 'Upload Blood Test Image'}
+            {VIEW_TITLES[view]}
           </h2>
 
-          {!showResults ? (
+          {view === 'upload' && (
             <>
-              <FileUploader onImageSelect={setImageBase64} />
+              <FileUploader pages={pages} onPagesChange={setPages} />
               
               <div className="mt-6">
                 <label htmlFor="context" className="block mb-2 text-sm font-medium">
@@ -198,47 +462,77 @@ export default function Home() {
                     <span className="px-3 py-1 rounded-full bg-gray-800 text-sm">
                       {getProviderLabel(provider)}
                     </span>
+                    {(getModel(provider) || getProvider(provider).defaultModel) && (
+                      <span className="text-xs text-text-secondary font-mono">
+                        {getModel(provider) || getProvider(provider).defaultModel}
+                      </span>
+                    )}
                   </div>
                   {isLimitApplied() && (
                     <div className="text-sm text-text-secondary">
-                      Remaining: <span className={`font-medium ${remainingImages === 0 ? 'text-red-400' : 'text-green-400'}`}>
-                        {remainingImages}/2
-                      </span> images today
+                      Remaining: <span className={`font-medium ${quota?.remaining === 0 ? 'text-red-400' : 'text-green-400'}`}>
+                        {quota?.remaining}/{quota?.limit}
+                      </span> analyses
                     </div>
                   )}
                   {!isLimitApplied() && (
                     <div className="text-sm text-green-400">
-                      No limit (using your API key)
+                      {hasProviderApiKey(provider) ? 'No limit (using your API key)' : 'No limit'}
                     </div>
                   )}
                 </div>
                 
-                <motion.button
-                  onClick={handleAnalyze}
-                  disabled={isLoading || !imageBase64 || (isLimitApplied() && remainingImages === 0)}
-                  className={`px-6 py-3 rounded-md ${
-                    isLoading || !imageBase64 || (isLimitApplied() && remainingImages === 0)
-                      ? 'bg-gray-700 cursor-not-allowed'
-                      : 'btn-primary glow-btn'
-                  } w-full sm:w-auto`}
-                  whileHover={imageBase64 && !isLoading && (!isLimitApplied() || remainingImages > 0) ? { scale: 1.03 } : {}}
-                  whileTap={imageBase64 && !isLoading && (!isLimitApplied() || remainingImages > 0) ? { scale: 0.97 } : {}}
-                >
-                  {isLoading ? 'Analyzing...' : 'Analyze Blood Test'}
-                </motion.button>
+                <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+                  {consensusProviders.length >= 2 && (
+                    <motion.button
+                      onClick={handleConsensus}
+                      disabled={isLoading || pages.length === 0}
+                      className={`px-4 py-3 rounded-md ${
+                        isLoading || pages.length === 0
+                          ? 'bg-gray-700 cursor-not-allowed'
+                          : 'bg-gray-800 text-white'
+                      } w-full sm:w-auto`}
+                      whileHover={pages.length > 0 && !isLoading ? { scale: 1.03 } : {}}
+                      whileTap={pages.length > 0 && !isLoading ? { scale: 0.97 } : {}}
+                      title={`Send the report to ${consensusProviders.map(getProviderLabel).join(', ')} and compare their readings`}
+                    >
+                      Ask all {consensusProviders.length} providers
+                    </motion.button>
+                  )}
+                  <motion.button
+                    onClick={handleAnalyze}
+                    disabled={isLoading || pages.length === 0 || isQuotaUsedUp()}
+                    className={`px-6 py-3 rounded-md ${
+                      isLoading || pages.length === 0 || isQuotaUsedUp()
+                        ? 'bg-gray-700 cursor-not-allowed'
+                        : 'btn-primary glow-btn'
+                    } w-full sm:w-auto`}
+                    whileHover={pages.length > 0 && !isLoading && !isQuotaUsedUp() ? { scale: 1.03 } : {}}
+                    whileTap={pages.length > 0 && !isLoading && !isQuotaUsedUp() ? { scale: 0.97 } : {}}
+                  >
+                    {isLoading ? 'Analyzing...' : 'Analyze Blood Test'}
+                  </motion.button>
+                </div>
               </div>
               
               {error && (
+                <ErrorMessage error={error} onOpenSettings={() => setShowSettings(true)} />
+              )}
+              
+              {!hasApiKey && getProvider(provider).capabilities.requiresApiKey && (
                 <motion.div 
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
-                  className="mt-4 p-3 bg-red-900/50 border border-red-800 rounded-md text-red-200"
+                  className="mt-4 p-3 bg-yellow-900/50 border border-yellow-800 rounded-md text-yellow-200 flex items-start gap-2"
                 >
-                  {error}
+                  <FaLightbulb className="text-yellow-200 text-lg flex-shrink-0 mt-0.5" />
+                  <span>
+                    You need to add your {getProviderLabel(provider)} API key in settings before using this provider.
+                  </span>
                 </motion.div>
               )}
               
-              {!hasApiKey && provider !== 'gemini' && (
+              {!isProviderConfigured(provider) && (
                 <motion.div 
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -246,12 +540,12 @@ export default function Home() {
                 >
                   <FaLightbulb className="text-yellow-200 text-lg flex-shrink-0 mt-0.5" />
                   <span>
-                    You need to add your {getProviderLabel(provider)} API key in settings before using this provider.
+                    You need to set the server URL and model for {getProviderLabel(provider)} in settings before using this provider.
                   </span>
                 </motion.div>
               )}
               
-              {isLimitApplied() && remainingImages === 0 && !error && (
+              {isQuotaUsedUp() && !error && (
                 <motion.div 
                   initial={{ opacity: 0, y: -10 }}
                   animate={{ opacity: 1, y: 0 }}
@@ -259,7 +553,7 @@ export default function Home() {
                 >
                   <FaLightbulb className="text-yellow-200 text-lg flex-shrink-0 mt-0.5" />
                   <span>
-                    You've reached the limit of 2 images in 24 hours. Try again in {formatTimeRemaining(resetTime)} or add your own API key in settings.
+                    You've reached the limit of {quota?.limit} analyses. Try again in {formatTimeRemaining(getResetTime())} or add your own API key in settings.
                   </span>
                 </motion.div>
               )}
@@ -268,22 +562,60 @@ export default function Home() {
                 <div className="flex items-start gap-2 text-text-secondary text-sm">
                   <FaQuestionCircle className="text-lg flex-shrink-0 mt-0.5 highlight" />
                   <p>
-                    Upload a clear photo of your blood test results for AI analysis. For best results, ensure all text is legible and include all values in the image.
+                    Upload clear photos or a PDF of your blood test results for AI analysis. Reports spanning several pages can be added page by page and reordered before analyzing. For best results, ensure all text is legible and include all values.
                     <br />
                     <span className="mt-1 block text-xs opacity-80">
                       {isLimitApplied() 
-                        ? "Limited to 2 image analyses per browser in a 24-hour period when using the default API key. Add your own API key in settings to remove this limit." 
-                        : "Using your own API key - no limits applied."}
+                        ? `Limited to ${quota?.limit} analyses every ${Math.round((quota?.windowMs || 0) / (60 * 60 * 1000))} hours when using the default API key. Add your own API key in settings to remove this limit.` 
+                        : hasProviderApiKey(provider)
+                          ? "Using your own API key - no limits applied."
+                          : "Not using the default API key - no limits applied."}
                     </span>
                   </p>
                 </div>
               </div>
             </>
-          ) : (
+          )}
+
+          {view === 'results' && (
             <ResultDisplay 
               result={result} 
               isLoading={isLoading} 
+              streamingText={streamingText}
               onBack={handleBackToUpload} 
+              onCancel={handleCancel}
+              followUpInput={resultInput}
+              thumbnail={resultThumbnail}
+            />
+          )}
+
+          {view === 'history' && (
+            <HistoryPanel onOpen={handleOpenRecord} onBack={handleBackToUpload} />
+          )}
+
+          {view === 'trends' && (
+            <TrendsPanel onBack={handleBackToUpload} />
+          )}
+
+          {view === 'consensus' && (
+            <ConsensusView
+              answers={consensusAnswers}
+              isLoading={isLoading}
+              onBack={handleBackToUpload}
+              onCancel={handleCancel}
+              onSave={handleSaveConsensusAnswer}
+            />
+          )}
+
+          {view === 'compare' && (
+            <ComparePanel
+              state={compareState}
+              onStateChange={setCompareState}
+              isLoading={isLoading}
+              error={error}
+              onOpenSettings={() => setShowSettings(true)}
+              onCompare={handleCompare}
+              onBack={handleBackToUpload}
             />
           )}
         </motion.section>
@@ -294,6 +626,7 @@ export default function Home() {
       </footer>
       
       <SettingsModal isOpen={showSettings} onClose={handleSettingsClose} />
+      <ProfilesModal isOpen={showProfiles} onClose={() => setShowProfiles(false)} onChange={handleProfilesChange} />
     </motion.main>
   );
 }
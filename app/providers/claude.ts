@@ -0,0 +1,143 @@
+import { AnalysisErrorCode, ProviderAdapter } from '../types';
+import { AnalysisError, codeFromStatus, getErrorMessage, parseErrorBody } from './errors';
+import { splitDataUrl } from './utils';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+
+interface ClaudeResponse {
+  content?: { type: string; text?: string }[];
+  stop_reason?: string;
+}
+
+interface ClaudeEvent {
+  type?: string;
+  delta?: { text?: string; stop_reason?: string };
+  error?: { type?: string; message?: string };
+}
+
+// Anthropic's error types, see https://docs.anthropic.com/en/api/errors
+const ERROR_TYPES: Record<string, AnalysisErrorCode> = {
+  authentication_error: 'invalid_key',
+  permission_error: 'invalid_key',
+  billing_error: 'quota_exhausted',
+  rate_limit_error: 'rate_limited',
+  request_too_large: 'image_unreadable',
+  timeout_error: 'timeout',
+  api_error: 'upstream_outage',
+  overloaded_error: 'upstream_outage'
+};
+
+const classifyError = (status: number, type: string | undefined, message: string): AnalysisErrorCode => {
+  if (/credit balance/i.test(message)) return 'quota_exhausted';
+  if (type === 'invalid_request_error' && /image/i.test(message)) return 'image_unreadable';
+  return (type && ERROR_TYPES[type]) || codeFromStatus(status);
+};
+
+const REFUSAL_MESSAGE = 'Claude declined to answer because of its safety policy';
+
+export const claudeAdapter: ProviderAdapter = {
+  id: 'claude',
+  label: 'Anthropic Claude',
+  shortLabel: 'Claude',
+  keyLabel: 'Anthropic Claude API Key',
+  keyHeader: 'x-claude-key',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    requiresApiKey: true,
+    customBaseUrl: false,
+    maxImageSize: 1568
+  },
+  models: [
+    { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4' },
+    { id: 'claude-opus-4-20250514', label: 'Claude Opus 4' },
+    { id: 'claude-3-7-sonnet-20250219', label: 'Claude 3.7 Sonnet' },
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku' },
+    { id: 'claude-3-opus-20240229', label: 'Claude 3 Opus' }
+  ],
+  defaultModel: 'claude-sonnet-4-20250514',
+
+  buildRequest: ({ images, prompt, history = [], apiKey, model, stream }) => {
+    if (!apiKey) {
+      throw new AnalysisError('invalid_key', 'No Claude API key provided');
+    }
+
+    // Extract base64 data without the prefix, labelling each page so the order is explicit
+    const imageBlocks = images.flatMap((imageBase64, index) => {
+      const { mimeType, data } = splitDataUrl(imageBase64);
+      return [
+        {
+          type: 'text',
+          text: `Page ${index + 1}:`
+        },
+        {
+          type: 'image',
+          source: {
+            type: 'base64',
+            media_type: mimeType,
+            data
+          }
+        }
+      ];
+    });
+
+    return {
+      url: API_URL,
+      options: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01'
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          temperature: 0.1,
+          stream,
+          messages: [
+            {
+              role: 'user',
+              content: [
+                {
+                  type: 'text',
+                  text: prompt
+                },
+                ...imageBlocks
+              ]
+            },
+            ...history.map(({ role, content }) => ({ role, content }))
+          ]
+        })
+      }
+    };
+  },
+
+  parseResponse: (data) => {
+    if ((data as ClaudeResponse).stop_reason === 'refusal') {
+      throw new AnalysisError('content_refused', REFUSAL_MESSAGE);
+    }
+    return ((data as ClaudeResponse).content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+  },
+
+  parseStreamChunk: (data) => {
+    const event = JSON.parse(data) as ClaudeEvent;
+    if (event.type === 'error') {
+      const message = event.error?.message || 'The stream failed';
+      throw new AnalysisError(classifyError(0, event.error?.type, message), message);
+    }
+    if (event.delta?.stop_reason === 'refusal') {
+      throw new AnalysisError('content_refused', REFUSAL_MESSAGE);
+    }
+    return event.type === 'content_block_delta' ? event.delta?.text || '' : '';
+  },
+
+  parseError: (status, body) => {
+    const message = getErrorMessage(body);
+    const type = (parseErrorBody(body)?.error as { type?: string } | undefined)?.type;
+    return { code: classifyError(status, type, message), message };
+  }
+};
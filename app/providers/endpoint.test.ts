@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress } from './endpoint';
+
+describe('isPrivateAddress', () => {
+  it('finds loopback, private, link-local and metadata addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe', '[::1]']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(true));
+  });
+
+  it('lets public addresses through', () => {
+    ['8.8.8.8', '172.32.0.1', '192.169.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']
+      .forEach(address => expect(isPrivateAddress(address), address).toBe(false));
+  });
+});
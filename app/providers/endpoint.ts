@@ -0,0 +1,71 @@
+import { lookup } from 'dns/promises';
+import { LLMProvider } from '../types';
+import { AnalysisError } from './errors';
+
+// Server-side checks for endpoints the user enters, like the local provider's URL. The server fetches them on the
+// user's behalf, so without these anyone could make it call its own network or a cloud metadata service.
+
+// Hosts from LOCAL_PROVIDER_HOSTS, e.g. "localhost:11434,gpu-box"; "*" stands for any host with a public address
+const getAllowedHosts = (): string[] => {
+  return (process.env.LOCAL_PROVIDER_HOSTS || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(host => host !== '');
+};
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224 // this network, private, loopback, multicast and reserved
+    || (a === 100 && b >= 64 && b <= 127) // carrier-grade NAT
+    || (a === 169 && b === 254) // link-local, where cloud metadata services live
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19)); // benchmarking
+};
+
+// Loopback, private, link-local and other addresses that aren't on the public internet
+export const isPrivateAddress = (address: string): boolean => {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(normalized)) {
+    return isPrivateIPv4(normalized);
+  }
+
+  // IPv4-mapped IPv6, written either way, e.g. ::ffff:127.0.0.1 or ::ffff:7f00:1
+  const mapped = normalized.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateIPv4(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  // Unspecified, loopback, unique local (fc00::/7), link-local (fe80::/10) and multicast
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized) || /^ff/.test(normalized);
+};
+
+// Throws unless LOCAL_PROVIDER_HOSTS lets the server call the URL. Hosts listed by name are trusted as they are;
+// with "*" any other host goes, as long as it doesn't resolve to a private address.
+export const checkCustomEndpoint = async (url: string, provider: LLMProvider): Promise<void> => {
+  const allowedHosts = getAllowedHosts();
+  if (allowedHosts.length === 0) {
+    throw new AnalysisError('invalid_request', 'Local models are turned off on this server, set LOCAL_PROVIDER_HOSTS to allow them', provider);
+  }
+
+  const { host, hostname } = new URL(url);
+  if (allowedHosts.includes(host.toLowerCase()) || allowedHosts.includes(hostname.toLowerCase())) {
+    return;
+  }
+  if (!allowedHosts.includes('*')) {
+    throw new AnalysisError('invalid_request', `${host} is not in this server's LOCAL_PROVIDER_HOSTS`, provider);
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  } catch {
+    throw new AnalysisError('upstream_outage', `Could not resolve ${hostname}`, provider);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new AnalysisError('invalid_request', `${host} is on a private network, list it in LOCAL_PROVIDER_HOSTS to allow it`, provider);
+  }
+};
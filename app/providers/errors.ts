@@ -0,0 +1,73 @@
+import { AnalysisErrorCode, LLMProvider, ProviderFailure } from '../types';
+
+// HTTP status /api/analyze responds with for each kind of failure
+export const ERROR_STATUS: Record<AnalysisErrorCode, number> = {
+  invalid_key: 401,
+  quota_exhausted: 402,
+  rate_limited: 429,
+  content_refused: 422,
+  image_unreadable: 422,
+  timeout: 504,
+  upstream_outage: 502,
+  invalid_request: 400,
+  unknown: 500
+};
+
+// Failures that may go away by themselves, worth retrying
+export const TRANSIENT_ERRORS: AnalysisErrorCode[] = ['rate_limited', 'timeout', 'upstream_outage'];
+
+// Upstream bodies can be whole HTML error pages, keep messages readable
+const MAX_MESSAGE_LENGTH = 300;
+
+// An analysis failed in a known way; thrown by the adapters and the route, and rebuilt on the client
+export class AnalysisError extends Error {
+  constructor(
+    readonly code: AnalysisErrorCode,
+    message: string,
+    readonly provider?: LLMProvider,
+    readonly status?: number, // HTTP status from the provider
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'AnalysisError';
+  }
+}
+
+// Any thrown value as a code and message
+export const toFailure = (error: unknown): ProviderFailure => {
+  if (error instanceof AnalysisError) {
+    return { code: error.code, message: error.message };
+  }
+  return { code: 'unknown', message: error instanceof Error ? error.message : 'Unknown error occurred' };
+};
+
+export const parseErrorBody = (body: string): Record<string, unknown> | undefined => {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// The message from { error: { message } } or { error: "..." } bodies, or the raw text
+export const getErrorMessage = (body: string): string => {
+  const error = parseErrorBody(body)?.error;
+  const message = typeof error === 'string'
+    ? error
+    : typeof (error as { message?: unknown })?.message === 'string' ? (error as { message: string }).message : body;
+  const trimmed = message.trim() || 'No details given';
+  return trimmed.length > MAX_MESSAGE_LENGTH ? `${trimmed.slice(0, MAX_MESSAGE_LENGTH)}…` : trimmed;
+};
+
+// Classify by HTTP status when the provider's body doesn't say more
+export const codeFromStatus = (status: number): AnalysisErrorCode => {
+  if (status === 401 || status === 403) return 'invalid_key';
+  if (status === 402) return 'quota_exhausted';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 413) return 'image_unreadable';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'upstream_outage';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+};
@@ -0,0 +1,126 @@
+import { AnalysisErrorCode, ProviderAdapter } from '../types';
+import { AnalysisError, codeFromStatus, getErrorMessage, parseErrorBody } from './errors';
+import { splitDataUrl } from './utils';
+
+const API_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] }; finishReason?: string }[];
+  promptFeedback?: { blockReason?: string };
+}
+
+// Finish reasons that mean the answer was withheld by a safety filter
+const BLOCKED_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+// Google's RPC status names, see https://ai.google.dev/gemini-api/docs/troubleshooting
+const ERROR_STATUSES: Record<string, AnalysisErrorCode> = {
+  UNAUTHENTICATED: 'invalid_key',
+  PERMISSION_DENIED: 'invalid_key',
+  RESOURCE_EXHAUSTED: 'rate_limited',
+  DEADLINE_EXCEEDED: 'timeout',
+  UNAVAILABLE: 'upstream_outage',
+  INTERNAL: 'upstream_outage'
+};
+
+const getText = (data: GeminiResponse) => {
+  const blockReason = data.promptFeedback?.blockReason || data.candidates?.find(candidate => (
+    candidate.finishReason && BLOCKED_REASONS.includes(candidate.finishReason)
+  ))?.finishReason;
+  if (blockReason) {
+    throw new AnalysisError('content_refused', `Gemini blocked the response (${blockReason})`);
+  }
+  return (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('');
+};
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  shortLabel: 'Gemini',
+  keyLabel: 'Google Gemini API Key',
+  keyHeader: 'x-gemini-key',
+  serverKeyEnv: 'GOOGLE_GEMINI_API_KEY',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    requiresApiKey: false,
+    customBaseUrl: false,
+    maxImageSize: 3072
+  },
+  models: [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash' },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro' },
+    { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash' }
+  ],
+  defaultModel: 'gemini-2.5-flash',
+
+  buildRequest: ({ images, prompt, history = [], apiKey, model, stream }) => {
+    if (!apiKey) {
+      throw new AnalysisError('invalid_key', 'No Gemini API key provided');
+    }
+
+    const modelUrl = `${API_URL}/${encodeURIComponent(model)}`;
+    const url = new URL(stream ? `${modelUrl}:streamGenerateContent` : `${modelUrl}:generateContent`);
+    if (stream) {
+      url.searchParams.set('alt', 'sse');
+    }
+    url.searchParams.set('key', apiKey);
+
+    // Extract the format and base64 data from the data URL (e.g., data:image/png;base64,)
+    const imageParts = images.map(imageBase64 => {
+      const { mimeType, data } = splitDataUrl(imageBase64);
+      return {
+        inline_data: {
+          mime_type: mimeType,
+          data
+        }
+      };
+    });
+
+    return {
+      url: url.toString(),
+      options: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              role: 'user',
+              parts: [
+                { text: prompt },
+                ...imageParts
+              ]
+            },
+            // Gemini calls the assistant 'model'
+            ...history.map(message => ({
+              role: message.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: message.content }]
+            }))
+          ],
+          generationConfig: {
+            temperature: 0.1,
+            maxOutputTokens: 8192, // 2.5 models spend part of this on thinking
+          }
+        })
+      }
+    };
+  },
+
+  parseResponse: (data) => getText(data as GeminiResponse),
+
+  parseStreamChunk: (data) => getText(JSON.parse(data) as GeminiResponse),
+
+  parseError: (status, body) => {
+    const message = getErrorMessage(body);
+    const rpcStatus = (parseErrorBody(body)?.error as { status?: string } | undefined)?.status;
+
+    // An invalid key comes back as INVALID_ARGUMENT
+    if (/api key/i.test(message)) return { code: 'invalid_key', message };
+    if (rpcStatus === 'RESOURCE_EXHAUSTED' && /billing|plan/i.test(message)) return { code: 'quota_exhausted', message };
+    if (rpcStatus === 'INVALID_ARGUMENT' && /image|mime|inline_data/i.test(message)) return { code: 'image_unreadable', message };
+    return { code: (rpcStatus && ERROR_STATUSES[rpcStatus]) || codeFromStatus(status), message };
+  }
+};
@@ -0,0 +1,32 @@
+import { LLMProvider, ProviderAdapter } from '../types';
+import { geminiAdapter } from './gemini';
+import { openaiAdapter } from './openai';
+import { claudeAdapter } from './claude';
+import { localAdapter } from './local';
+
+// Registry of every provider, read by both the analyze route and the UI.
+// Adding a provider means writing its adapter and listing it here.
+export const PROVIDER_ADAPTERS = {
+  gemini: geminiAdapter,
+  openai: openaiAdapter,
+  claude: claudeAdapter,
+  local: localAdapter
+} satisfies Record<string, ProviderAdapter>;
+
+export const PROVIDER_IDS = Object.keys(PROVIDER_ADAPTERS) as LLMProvider[];
+
+export const isProvider = (value: unknown): value is LLMProvider => {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PROVIDER_ADAPTERS, value);
+};
+
+export const getProvider = (provider: string): ProviderAdapter => {
+  if (!isProvider(provider)) {
+    throw new Error(`Unsupported provider: ${provider}`);
+  }
+  return PROVIDER_ADAPTERS[provider];
+};
+
+// Display name for a provider, falling back to the raw id for unknown values
+export const getProviderLabel = (provider: string): string => {
+  return isProvider(provider) ? PROVIDER_ADAPTERS[provider].label : provider;
+};
@@ -0,0 +1,78 @@
+import { ProviderAdapter } from '../types';
+import {
+  buildChatCompletionsBody,
+  parseChatCompletionsChunk,
+  parseChatCompletionsError,
+  parseChatCompletionsResponse
+} from './openai';
+import { AnalysisError } from './errors';
+
+// Self-hosted servers speaking the OpenAI chat-completions protocol (Ollama, llama.cpp, vLLM).
+// The base URL is fetched from the Next.js server, so it must be reachable from there and allowed by LOCAL_PROVIDER_HOSTS.
+export const localAdapter: ProviderAdapter = {
+  id: 'local',
+  label: 'Local Model',
+  shortLabel: 'Local',
+  keyLabel: 'Local Server API Key (optional)',
+  keyHeader: 'x-local-key',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    requiresApiKey: false,
+    customBaseUrl: true,
+    maxImageSize: 1536
+  },
+  models: [
+    { id: 'llava', label: 'LLaVA' },
+    { id: 'llama3.2-vision', label: 'Llama 3.2 Vision' },
+    { id: 'qwen2.5vl', label: 'Qwen2.5-VL' },
+    { id: 'gemma3', label: 'Gemma 3' }
+  ],
+
+  buildRequest: ({ images, prompt, history, apiKey, baseUrl, model, stream }) => {
+    if (!baseUrl) {
+      throw new AnalysisError('invalid_request', 'No local server URL provided');
+    }
+
+    let url: URL;
+    try {
+      url = new URL(`${baseUrl.replace(/\/+$/, '')}/chat/completions`);
+    } catch {
+      throw new AnalysisError('invalid_request', `Invalid local server URL: ${baseUrl}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new AnalysisError('invalid_request', 'The local server URL must use http or https');
+    }
+
+    return {
+      url: url.toString(),
+      options: {
+        method: 'POST',
+        redirect: 'error', // a redirect could point past LOCAL_PROVIDER_HOSTS
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+        },
+        body: buildChatCompletionsBody(images, prompt, model, stream, history)
+      }
+    };
+  },
+
+  parseResponse: parseChatCompletionsResponse,
+
+  parseStreamChunk: (data) => {
+    try {
+      return parseChatCompletionsChunk(data);
+    } catch (error) {
+      // Parse errors quote the data they choked on
+      if (error instanceof AnalysisError) throw error;
+      throw new AnalysisError('upstream_outage', 'The local server sent a stream in an unknown format');
+    }
+  },
+
+  // The URL may point at anything the server can reach, so its error bodies aren't passed on to the client
+  parseError: (status, body) => ({
+    code: parseChatCompletionsError(status, body).code,
+    message: `The local server responded with HTTP ${status}`
+  })
+};
@@ -0,0 +1,125 @@
+import { ChatMessage, ProviderAdapter, ProviderFailure } from '../types';
+import { AnalysisError, codeFromStatus, getErrorMessage, parseErrorBody } from './errors';
+
+const API_URL = 'https://api.openai.com/v1/chat/completions';
+
+interface OpenAIResponse {
+  choices?: { message?: { content?: string; refusal?: string }; finish_reason?: string }[];
+}
+
+interface OpenAIChunk {
+  choices?: { delta?: { content?: string; refusal?: string }; finish_reason?: string }[];
+}
+
+// The model declined to answer, either in its own words or through a content filter
+const checkRefusal = (refusal?: string, finishReason?: string) => {
+  if (refusal) {
+    throw new AnalysisError('content_refused', refusal);
+  }
+  if (finishReason === 'content_filter') {
+    throw new AnalysisError('content_refused', 'The response was blocked by the content filter');
+  }
+};
+
+// Chat-completions body, shared with other servers speaking the same protocol
+export const buildChatCompletionsBody = (images: string[], prompt: string, model: string, stream: boolean, history: ChatMessage[] = []) => {
+  const imageParts = images.map(imageBase64 => ({
+    type: 'image_url',
+    image_url: {
+      url: imageBase64
+    }
+  }));
+
+  return JSON.stringify({
+    model,
+    messages: [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: prompt },
+          ...imageParts
+        ]
+      },
+      ...history.map(({ role, content }) => ({ role, content }))
+    ],
+    max_tokens: 4096,
+    temperature: 0.1,
+    stream,
+  });
+};
+
+export const parseChatCompletionsResponse = (data: unknown): string => {
+  const choice = (data as OpenAIResponse).choices?.[0];
+  checkRefusal(choice?.message?.refusal, choice?.finish_reason);
+  return choice?.message?.content || '';
+};
+
+export const parseChatCompletionsChunk = (data: string): string => {
+  // The stream is terminated with a non-JSON sentinel
+  if (data === '[DONE]') {
+    return '';
+  }
+  const choice = (JSON.parse(data) as OpenAIChunk).choices?.[0];
+  checkRefusal(choice?.delta?.refusal, choice?.finish_reason);
+  return choice?.delta?.content || '';
+};
+
+// { error: { message, type, code } }, also used by most self-hosted servers
+export const parseChatCompletionsError = (status: number, body: string): ProviderFailure => {
+  const error = parseErrorBody(body)?.error as { type?: string; code?: string } | undefined;
+  const type = `${error?.code || ''} ${error?.type || ''}`;
+  const message = getErrorMessage(body);
+
+  if (status === 401 || type.includes('invalid_api_key')) return { code: 'invalid_key', message };
+  if (/insufficient_quota|billing/.test(type)) return { code: 'quota_exhausted', message };
+  if (/content_policy|content_filter|safety/.test(type)) return { code: 'content_refused', message };
+  if (/image/.test(type) || (status === 400 && /image/i.test(message))) return { code: 'image_unreadable', message };
+  return { code: codeFromStatus(status), message };
+};
+
+export const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI ChatGPT',
+  shortLabel: 'OpenAI',
+  keyLabel: 'OpenAI API Key',
+  keyHeader: 'x-openai-key',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    requiresApiKey: true,
+    customBaseUrl: false,
+    maxImageSize: 2048
+  },
+  models: [
+    { id: 'gpt-4o', label: 'GPT-4o' },
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini' },
+    { id: 'gpt-4.1', label: 'GPT-4.1' },
+    { id: 'gpt-4.1-mini', label: 'GPT-4.1 mini' },
+    { id: 'gpt-4-turbo', label: 'GPT-4 Turbo' }
+  ],
+  defaultModel: 'gpt-4o',
+
+  buildRequest: ({ images, prompt, history, apiKey, model, stream }) => {
+    if (!apiKey) {
+      throw new AnalysisError('invalid_key', 'No OpenAI API key provided');
+    }
+
+    return {
+      url: API_URL,
+      options: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${apiKey}`,
+        },
+        body: buildChatCompletionsBody(images, prompt, model, stream, history)
+      }
+    };
+  },
+
+  parseResponse: parseChatCompletionsResponse,
+
+  parseStreamChunk: parseChatCompletionsChunk,
+
+  parseError: parseChatCompletionsError
+};
@@ -0,0 +1,49 @@
+// Retrying and falling back between providers when a call fails
+import { AnalysisError, TRANSIENT_ERRORS } from './errors';
+
+// Retries per provider the server allows, whatever the client asks for
+export const MAX_RETRIES = 3;
+// First backoff delay, doubled on every retry
+const BASE_DELAY_MS = 1000;
+// Longest wait between retries, also caps the provider's Retry-After
+const MAX_DELAY_MS = 10 * 1000;
+
+// Rate limits, timeouts, outages and dropped connections are worth another try
+export const isRetryable = (error: unknown): boolean => {
+  return error instanceof AnalysisError && TRANSIENT_ERRORS.includes(error.code);
+};
+
+// Read a Retry-After header given in seconds or as an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Exponential backoff with jitter, or the provider's own Retry-After when it sends one
+export const getRetryDelay = (error: unknown, retry: number): number => {
+  const retryAfter = error instanceof AnalysisError ? error.retryAfterMs : undefined;
+  const delay = retryAfter ?? BASE_DELAY_MS * 2 ** retry + Math.random() * 250;
+  return Math.min(delay, MAX_DELAY_MS);
+};
+
+// Resolve after the delay, or reject as soon as the request is aborted
+export const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
@@ -0,0 +1,9 @@
+// Helpers shared by the provider adapters
+
+// Split a data URL into its mime type and base64 payload
+export const splitDataUrl = (dataUrl: string) => {
+  return {
+    mimeType: dataUrl.split(';')[0].split(':')[1],
+    data: dataUrl.split(',')[1]
+  };
+};
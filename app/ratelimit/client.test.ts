@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { identifyClient } from './client';
+
+const requestWith = (headers: Record<string, string>) => new NextRequest('http://localhost/api/analyze', { headers });
+
+describe('identifyClient', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('counts clients by a signed token when no proxy or platform header is configured', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '');
+    vi.stubEnv('RATE_LIMIT_IP_HEADER', '');
+    vi.stubEnv('RATE_LIMIT_SECRET', '');
+    const first = identifyClient(requestWith({ 'x-forwarded-for': '203.0.113.7' }));
+    expect(first.keys).toEqual([expect.stringMatching(/^token:/)]);
+
+    const again = identifyClient(requestWith({ cookie: `bloodq_client=${first.newToken}` }));
+    expect(again.keys).toEqual(first.keys);
+    expect(identifyClient(requestWith({})).keys).not.toEqual(first.keys);
+  });
+
+  it('counts back from the right of X-Forwarded-For past the trusted proxies', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+    expect(identifyClient(requestWith({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })).keys).toEqual(['ip:203.0.113.7']);
+
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '2');
+    expect(identifyClient(requestWith({ 'x-forwarded-for': '1.2.3.4,203.0.113.7, 10.0.0.2' })).keys).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('falls back to the token when there are fewer entries than proxies', () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '2');
+    expect(identifyClient(requestWith({ 'x-forwarded-for': '203.0.113.7' })).keys).toEqual([expect.stringMatching(/^token:/)]);
+    expect(identifyClient(requestWith({})).keys).toEqual([expect.stringMatching(/^token:/)]);
+  });
+
+  it('uses the header the platform sets when one is configured', () => {
+    vi.stubEnv('RATE_LIMIT_IP_HEADER', 'cf-connecting-ip');
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+    expect(identifyClient(requestWith({ 'cf-connecting-ip': '203.0.113.7', 'x-forwarded-for': '1.2.3.4' })).keys).toEqual(['ip:203.0.113.7']);
+  });
+
+  it('adds a signed token when RATE_LIMIT_SECRET is set, and reads it back', () => {
+    vi.stubEnv('RATE_LIMIT_SECRET', 'secret');
+    const first = identifyClient(requestWith({}));
+    expect(first.newToken).toBeDefined();
+
+    const again = identifyClient(requestWith({ cookie: `bloodq_client=${first.newToken}` }));
+    expect(again.newToken).toBeUndefined();
+    expect(again.keys).toEqual(first.keys);
+
+    const forged = identifyClient(requestWith({ cookie: `bloodq_client=${first.newToken?.split('.')[0]}.forged` }));
+    expect(forged.newToken).toBeDefined();
+  });
+});
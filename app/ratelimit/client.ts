@@ -0,0 +1,82 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+
+const TOKEN_COOKIE = 'bloodq_client';
+const TOKEN_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+// Signs tokens when RATE_LIMIT_SECRET isn't set. They stop verifying when the server restarts
+// and aren't shared between instances, so set the secret anywhere the address isn't known.
+const PROCESS_SECRET = randomBytes(32).toString('base64url');
+
+const sign = (id: string, secret: string) => {
+  return createHmac('sha256', secret).update(id).digest('base64url');
+};
+
+// The id inside a token cookie, null if it is missing or wasn't signed with our secret
+const verifyToken = (token: string | undefined, secret: string): string | null => {
+  if (!token) return null;
+
+  const [id, signature] = token.split('.');
+  if (!id || !signature) return null;
+
+  const expected = Buffer.from(sign(id, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? id : null;
+};
+
+// The client's address as seen by the platform or the nearest trusted proxy, null when neither is configured.
+// Each proxy appends the address it got the request from to X-Forwarded-For, so counting back
+// RATE_LIMIT_TRUSTED_PROXIES entries from the right skips anything the client wrote there itself.
+const getClientIp = (request: NextRequest): string | null => {
+  const header = process.env.RATE_LIMIT_IP_HEADER;
+  if (header) {
+    return request.headers.get(header)?.trim() || null;
+  }
+
+  const trustedProxies = Math.floor(Number(process.env.RATE_LIMIT_TRUSTED_PROXIES) || 0);
+  if (trustedProxies <= 0) {
+    return null;
+  }
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry !== '');
+  return forwarded[forwarded.length - trustedProxies] || null;
+};
+
+export interface ClientIdentity {
+  keys: string[]; // every key the request is counted under
+  newToken?: string; // a token to hand out, when the client didn't send a valid one
+}
+
+// Identify the client by IP, and by a signed anonymous token when RATE_LIMIT_SECRET is set.
+// Counting both means neither clearing cookies nor switching networks resets the quota.
+// Without a trusted address the token is all there is, so it is issued even without the secret.
+export const identifyClient = (request: NextRequest): ClientIdentity => {
+  const ip = getClientIp(request);
+  const keys = ip ? [`ip:${ip}`] : [];
+  const secret = process.env.RATE_LIMIT_SECRET || (ip ? null : PROCESS_SECRET);
+  if (!secret) {
+    return { keys };
+  }
+
+  const existingId = verifyToken(request.cookies.get(TOKEN_COOKIE)?.value, secret);
+  if (existingId) {
+    return { keys: [...keys, `token:${existingId}`] };
+  }
+
+  const id = randomUUID();
+  return { keys: [...keys, `token:${id}`], newToken: `${id}.${sign(id, secret)}` };
+};
+
+// Set the token cookie on a response if a new one was issued
+export const attachClientToken = <T extends Response>(response: T, identity: ClientIdentity): T => {
+  if (identity.newToken) {
+    const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+    response.headers.append(
+      'Set-Cookie',
+      `${TOKEN_COOKIE}=${identity.newToken}; Path=/; Max-Age=${TOKEN_MAX_AGE}; HttpOnly; SameSite=Strict${secure}`
+    );
+  }
+  return response;
+};
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileStore } from './file';
+
+describe('createFileStore', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'bloodq-ratelimit-'));
+    filePath = path.join(directory, 'nested', 'ratelimit.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps counts across store instances, like a restarted server', async () => {
+    await createFileStore(filePath).increment('ip:1', 60000);
+    await createFileStore(filePath).increment('ip:1', 60000);
+    expect(await createFileStore(filePath).get('ip:1')).toMatchObject({ count: 2 });
+  });
+
+  it('does not lose concurrent increments', async () => {
+    const store = createFileStore(filePath);
+    await Promise.all(Array.from({ length: 10 }, () => store.increment('ip:1', 60000)));
+    expect(await store.get('ip:1')).toMatchObject({ count: 10 });
+  });
+
+  it('gives back requests without going below zero', async () => {
+    const store = createFileStore(filePath);
+    await store.increment('ip:1', 60000);
+    await store.decrement('ip:1');
+    await store.decrement('ip:1');
+    expect(await store.get('ip:1')).toMatchObject({ count: 0 });
+  });
+
+  it('drops expired windows from the file', async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({ 'ip:old': { count: 5, resetAt: Date.now() - 1 } }));
+
+    const store = createFileStore(filePath);
+    expect(await store.get('ip:old')).toBeNull();
+    await store.increment('ip:new', 60000);
+    expect(Object.keys(JSON.parse(await fs.readFile(filePath, 'utf8')))).toEqual(['ip:new']);
+  });
+});
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RateLimitEntry, RateLimitStore } from '../types';
+
+// Counters in a JSON file, so they survive restarts of a single server
+export const createFileStore = (filePath: string): RateLimitStore => {
+  // Writes are chained so concurrent requests don't overwrite each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, RateLimitEntry>> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  };
+
+  const write = async (entries: Record<string, RateLimitEntry>) => {
+    // Drop expired windows so the file doesn't grow forever
+    const now = Date.now();
+    const live = Object.fromEntries(Object.entries(entries).filter(([, entry]) => entry.resetAt > now));
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(live));
+    await fs.rename(tempPath, filePath);
+  };
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    get: (key) => enqueue(async () => {
+      const entry = (await read())[key];
+      return entry && entry.resetAt > Date.now() ? entry : null;
+    }),
+
+    increment: (key, windowMs) => enqueue(async () => {
+      const entries = await read();
+      const current = entries[key];
+      const entry = current && current.resetAt > Date.now()
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: Date.now() + windowMs };
+      await write({ ...entries, [key]: entry });
+      return entry;
+    }),
+
+    decrement: (key) => enqueue(async () => {
+      const entries = await read();
+      const current = entries[key];
+      if (current && current.resetAt > Date.now() && current.count > 0) {
+        await write({ ...entries, [key]: { ...current, count: current.count - 1 } });
+      }
+    })
+  };
+};
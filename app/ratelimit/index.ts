@@ -0,0 +1,84 @@
+import { ProviderAdapter, QuotaStatus, RateLimitEntry, RateLimitStore } from '../types';
+import { createMemoryStore } from './memory';
+import { createFileStore } from './file';
+import { createRedisStore } from './redis';
+
+const HOUR = 60 * 60 * 1000;
+
+// Stores selectable with RATE_LIMIT_STORE. Adding one means writing a RateLimitStore and listing it here.
+const RATE_LIMIT_STORES: Record<string, () => RateLimitStore> = {
+  memory: () => createMemoryStore(),
+  file: () => createFileStore(process.env.RATE_LIMIT_FILE || '.data/ratelimit.json'),
+  redis: () => {
+    const url = process.env.RATE_LIMIT_REDIS_URL;
+    const token = process.env.RATE_LIMIT_REDIS_TOKEN;
+    if (!url || !token) {
+      throw new Error('RATE_LIMIT_REDIS_URL and RATE_LIMIT_REDIS_TOKEN must be set for the redis rate limit store');
+    }
+    return createRedisStore(url, token);
+  }
+};
+
+let store: RateLimitStore | null = null;
+
+export const getRateLimitStore = (): RateLimitStore => {
+  if (!store) {
+    const name = process.env.RATE_LIMIT_STORE || 'memory';
+    const create = RATE_LIMIT_STORES[name];
+    if (!create) {
+      throw new Error(`Unknown rate limit store: ${name}`);
+    }
+    store = create();
+  }
+  return store;
+};
+
+// Requests allowed per client in each window, when the server's key is used
+export const getRateLimitConfig = () => ({
+  limit: Number(process.env.RATE_LIMIT_MAX) || 2,
+  windowMs: (Number(process.env.RATE_LIMIT_WINDOW_HOURS) || 24) * HOUR
+});
+
+// Only requests paid for by the server's own key are limited
+export const usesServerKey = (adapter: ProviderAdapter, userApiKey?: string): boolean => {
+  return !userApiKey && adapter.serverKeyEnv !== undefined && !!process.env[adapter.serverKeyEnv];
+};
+
+// The most used of the client's keys decides what is left
+const toStatus = (entries: (RateLimitEntry | null)[]): QuotaStatus => {
+  const { limit, windowMs } = getRateLimitConfig();
+  const used = entries.filter((entry): entry is RateLimitEntry => entry !== null);
+  const count = Math.max(0, ...used.map(entry => entry.count));
+  const resetAt = used.length > 0 ? Math.max(...used.map(entry => entry.resetAt)) : null;
+
+  return { limited: true, limit, windowMs, remaining: Math.max(0, limit - count), resetAt };
+};
+
+export const getQuota = async (keys: string[]): Promise<QuotaStatus> => {
+  const entries = await Promise.all(keys.map(key => getRateLimitStore().get(key)));
+  return toStatus(entries);
+};
+
+// Count a request under every key; it is allowed if none of them went over the limit
+export const consumeQuota = async (keys: string[]): Promise<{ allowed: boolean; status: QuotaStatus }> => {
+  const { limit, windowMs } = getRateLimitConfig();
+  const entries = await Promise.all(keys.map(key => getRateLimitStore().increment(key, windowMs)));
+
+  return {
+    allowed: entries.every(entry => entry.count <= limit),
+    status: toStatus(entries)
+  };
+};
+
+// Give back a request counted by consumeQuota, when the provider never answered it
+export const refundQuota = async (keys: string[]): Promise<void> => {
+  await Promise.all(keys.map(key => getRateLimitStore().decrement(key)));
+};
+
+// "3h 20m" style duration for error messages
+export const formatDuration = (milliseconds: number): string => {
+  const totalMinutes = Math.max(1, Math.ceil(milliseconds / (60 * 1000)));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryStore } from './memory';
+
+describe('createMemoryStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts requests per key within a window', async () => {
+    const store = createMemoryStore();
+    expect(await store.get('ip:1')).toBeNull();
+
+    await store.increment('ip:1', 1000);
+    expect((await store.increment('ip:1', 1000)).count).toBe(2);
+    expect((await store.increment('ip:2', 1000)).count).toBe(1);
+    expect(await store.get('ip:1')).toMatchObject({ count: 2 });
+  });
+
+  it('starts over once the window has passed', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+    const first = await store.increment('ip:1', 1000);
+    await store.increment('ip:1', 1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(await store.get('ip:1')).toBeNull();
+    const next = await store.increment('ip:1', 1000);
+    expect(next.count).toBe(1);
+    expect(next.resetAt).toBe(first.resetAt + 1000);
+  });
+
+  it('gives back requests within the window', async () => {
+    const store = createMemoryStore();
+    await store.increment('ip:1', 1000);
+    await store.increment('ip:1', 1000);
+
+    await store.decrement('ip:1');
+    expect(await store.get('ip:1')).toMatchObject({ count: 1 });
+    await store.decrement('ip:2');
+    expect(await store.get('ip:2')).toBeNull();
+  });
+
+  it('drops keys when their window ends, even if they are never read again', async () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+    const deleted = vi.spyOn(Map.prototype, 'delete');
+    await store.increment('ip:1', 1000);
+
+    vi.advanceTimersByTime(999);
+    expect(deleted).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(deleted).toHaveBeenCalledWith('ip:1');
+    deleted.mockRestore();
+  });
+});
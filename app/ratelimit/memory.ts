@@ -0,0 +1,55 @@
+import { RateLimitEntry, RateLimitStore } from '../types';
+
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+// Counters in this process' memory; reset on restart and not shared between instances
+export const createMemoryStore = (): RateLimitStore => {
+  const entries = new Map<string, RateLimitEntry>();
+
+  // Drop each window when it ends, so clients that never come back don't pile up.
+  // Long windows are waited out in steps because timers can't be longer than about 24 days.
+  const expire = (key: string, resetAt: number) => {
+    const timer = setTimeout(() => {
+      if (entries.get(key)?.resetAt !== resetAt) return;
+      if (resetAt <= Date.now()) {
+        entries.delete(key);
+      } else {
+        expire(key, resetAt);
+      }
+    }, Math.min(MAX_TIMEOUT, Math.max(0, resetAt - Date.now())));
+    // Pending windows shouldn't keep the process alive
+    timer.unref?.();
+  };
+
+  const get = async (key: string) => {
+    const entry = entries.get(key);
+    if (entry && entry.resetAt <= Date.now()) {
+      entries.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    get,
+
+    increment: async (key, windowMs) => {
+      const current = await get(key);
+      const entry = current
+        ? { ...current, count: current.count + 1 }
+        : { count: 1, resetAt: Date.now() + windowMs };
+      entries.set(key, entry);
+      if (!current) {
+        expire(key, entry.resetAt);
+      }
+      return entry;
+    },
+
+    decrement: async (key) => {
+      const current = await get(key);
+      if (current && current.count > 0) {
+        entries.set(key, { ...current, count: current.count - 1 });
+      }
+    }
+  };
+};
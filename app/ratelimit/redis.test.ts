@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRedisStore } from './redis';
+
+// Answers each pipeline call with the next list of results
+const mockPipeline = (...responses: unknown[][]) => {
+  const fetchMock = vi.fn();
+  responses.forEach(results => {
+    fetchMock.mockResolvedValueOnce(new Response(JSON.stringify(results.map(result => ({ result })))));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('createRedisStore', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('increments with an expiry that is only set for new keys', async () => {
+    const fetchMock = mockPipeline([3, 0, 5000]);
+    const store = createRedisStore('https://redis.example.com/', 'secret');
+
+    const entry = await store.increment('ip:1', 60000);
+    expect(entry.count).toBe(3);
+    expect(entry.resetAt).toBeGreaterThan(Date.now() + 4000);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://redis.example.com/pipeline');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual([
+      ['INCR', 'bloodq:ratelimit:ip:1'],
+      ['PEXPIRE', 'bloodq:ratelimit:ip:1', 60000, 'NX'],
+      ['PTTL', 'bloodq:ratelimit:ip:1']
+    ]);
+  });
+
+  it('reads missing and expired keys as no entry', async () => {
+    mockPipeline([null, -2], ['4', 1000]);
+    const store = createRedisStore('https://redis.example.com', 'secret');
+
+    expect(await store.get('ip:1')).toBeNull();
+    expect(await store.get('ip:2')).toMatchObject({ count: 4 });
+  });
+
+  it('decrements in a script that leaves missing keys alone', async () => {
+    const fetchMock = mockPipeline([1]);
+    await createRedisStore('https://redis.example.com', 'secret').decrement('ip:1');
+
+    const [command] = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(command).toEqual(['EVAL', expect.stringContaining('DECR'), 1, 'bloodq:ratelimit:ip:1']);
+  });
+
+  it('throws on failed requests and command errors', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response('', { status: 401 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([{ error: 'WRONGTYPE' }, { result: -1 }])));
+    vi.stubGlobal('fetch', fetchMock);
+    const store = createRedisStore('https://redis.example.com', 'secret');
+
+    await expect(store.get('ip:1')).rejects.toThrow('(401)');
+    await expect(store.get('ip:1')).rejects.toThrow('WRONGTYPE');
+  });
+});
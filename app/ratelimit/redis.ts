@@ -0,0 +1,56 @@
+import { RateLimitStore } from '../types';
+
+type RedisCommand = (string | number)[];
+
+const DECREMENT_SCRIPT = "local count = tonumber(redis.call('GET', KEYS[1])) if count and count > 0 then return redis.call('DECR', KEYS[1]) end return 0";
+
+// Counters in Redis, through an Upstash-compatible REST endpoint, shared by every instance
+export const createRedisStore = (url: string, token: string, prefix = 'bloodq:ratelimit:'): RateLimitStore => {
+  const pipeline = async (commands: RedisCommand[]): Promise<unknown[]> => {
+    const response = await fetch(`${url.replace(/\/+$/, '')}/pipeline`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify(commands),
+      cache: 'no-store'
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rate limit store error (${response.status})`);
+    }
+
+    const results = await response.json() as { result?: unknown; error?: string }[];
+    const failed = results.find(item => item.error);
+    if (failed) {
+      throw new Error(`Rate limit store error: ${failed.error}`);
+    }
+    return results.map(item => item.result);
+  };
+
+  return {
+    get: async (key) => {
+      const [count, ttl] = await pipeline([['GET', prefix + key], ['PTTL', prefix + key]]);
+      if (count === null || Number(ttl) <= 0) {
+        return null;
+      }
+      return { count: Number(count), resetAt: Date.now() + Number(ttl) };
+    },
+
+    increment: async (key, windowMs) => {
+      // NX only sets the expiry when the key was just created by INCR
+      const [count, , ttl] = await pipeline([
+        ['INCR', prefix + key],
+        ['PEXPIRE', prefix + key, windowMs, 'NX'],
+        ['PTTL', prefix + key]
+      ]);
+      return { count: Number(count), resetAt: Date.now() + Math.max(0, Number(ttl)) };
+    },
+
+    decrement: async (key) => {
+      // In a script so an expired key isn't recreated without an expiry
+      await pipeline([['EVAL', DECREMENT_SCRIPT, 1, prefix + key]]);
+    }
+  };
+};
@@ -1,33 +1,350 @@
 // Types for the webapp
 
-export type LLMProvider = 'gemini' | 'openai' | 'claude'; // all the 3 LLMProviders i know of
+import type { PROVIDER_ADAPTERS } from './providers';
 
-export interface ApiKeys {
-  gemini?: string;
-  openai?: string;
-  claude?: string;
+// Derived from the registry, so adding a provider doesn't touch this file
+export type LLMProvider = keyof typeof PROVIDER_ADAPTERS;
+
+export type ApiKeys = Partial<Record<LLMProvider, string>>;
+
+// A turn of a follow-up conversation about an analysis
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderRequestOptions {
+  images: string[]; // data URLs, in page order
+  prompt: string;
+  history?: ChatMessage[]; // turns after the first prompt, ending with the user's question
+  apiKey?: string;
+  baseUrl?: string; // for providers with a user-configured server
+  model: string;
+  stream: boolean;
+}
+
+export interface ProviderFetchConfig {
+  url: string;
+  options: RequestInit;
+}
+
+export interface ProviderCapabilities {
+  vision: boolean;
+  streaming: boolean;
+  requiresApiKey: boolean; // false when the server has its own key or the key is optional
+  customBaseUrl: boolean; // the user points it at their own server and picks the model
+  maxImageSize: number; // longest image side in pixels the provider recommends, larger pages are downscaled before sending
+}
+
+export interface ProviderModel {
+  id: string; // model ID sent to the API
+  label: string;
 }
 
+export interface ProviderAdapter {
+  id: string;
+  // Display metadata
+  label: string; // e.g. "Google Gemini"
+  shortLabel: string; // e.g. "Gemini"
+  keyLabel: string; // e.g. "Google Gemini API Key"
+  keyHeader: string; // request header carrying the user's key to /api/analyze
+  serverKeyEnv?: string; // environment variable with the server's fallback key
+  capabilities: ProviderCapabilities;
+  models: ProviderModel[]; // known vision-capable models, users can also type their own
+  defaultModel?: string; // unset when the user has to name the model
+  // Protocol
+  buildRequest: (options: ProviderRequestOptions) => ProviderFetchConfig;
+  parseResponse: (data: unknown) => string;
+  parseStreamChunk: (data: string) => string; // raw SSE data, returns the text delta
+  parseError: (status: number, body: string) => ProviderFailure; // maps the provider's error format onto AnalysisErrorCode
+}
+
+// What went wrong with an analysis, the same for every provider
+export type AnalysisErrorCode =
+  | 'invalid_key' // missing, wrong or revoked API key
+  | 'quota_exhausted' // out of credit, or a usage limit that won't reset soon
+  | 'rate_limited' // too many requests right now, trying again later works
+  | 'content_refused' // blocked by the provider's safety filters
+  | 'image_unreadable' // the image couldn't be decoded, or is too large
+  | 'timeout'
+  | 'upstream_outage' // the provider is down or can't be reached
+  | 'invalid_request' // something is wrong with the request itself
+  | 'unknown';
+
+export interface ProviderFailure {
+  code: AnalysisErrorCode;
+  message: string; // the provider's own message
+}
+
+// Body of an error response from /api/analyze
+export interface AnalysisErrorBody {
+  error: string;
+  code: AnalysisErrorCode;
+  provider?: LLMProvider;
+  quota?: QuotaStatus; // set when the server's own quota is used up
+}
+
+// SI units like mmol/L and g/L, or conventional ones like mg/dL and g/dL
+export type UnitSystem = 'si' | 'conventional';
+
 export interface UserSettings {
   apiKeys: ApiKeys;
   preferredProvider: LLMProvider;
+  baseUrls?: Partial<Record<LLMProvider, string>>; // only for providers with customBaseUrl
+  models?: Partial<Record<LLMProvider, string>>; // chosen model per provider, unset uses the default
+  profiles?: HouseholdProfile[];
+  activeProfileId?: string;
+  profile?: PatientProfile; // from before household profiles, becomes the default profile's details
+  maxRetries?: number; // retries per provider on rate limits and server errors
+  fallbackProviders?: LLMProvider[]; // tried in order when the preferred provider fails
+  unitSystem?: UnitSystem; // units values are shown in, unset shows them as reported
+}
+
+// AES-GCM ciphertext, both fields base64
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+// Stored when passphrase encryption is on, everything needed to check a passphrase and derive the key
+export interface VaultMeta {
+  version: 1;
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedPayload; // a known value, decrypts only with the right passphrase
+  autoLockMinutes: number;
+}
+
+// A person in the household, with their own patient details and analyses
+export interface HouseholdProfile {
+  id: string;
+  name: string;
+  patient?: PatientProfile;
+  createdAt: number;
 }
 
+export type BiologicalSex = 'female' | 'male' | 'other';
+
+// Details that change which reference ranges apply, all optional
+export interface PatientProfile {
+  age?: number;
+  sex?: BiologicalSex;
+  pregnant?: boolean;
+  medications?: string[];
+  conditions?: string[];
+}
+
+export type ProfileField = keyof PatientProfile;
+
+// A profile field the model says changed its interpretation
+export interface ProfileNote {
+  field: ProfileField;
+  note: string;
+}
+
+export type BiomarkerFlag = 'high' | 'low' | 'normal';
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+  text?: string; // the range as printed on the report, e.g. "< 200" or "4.0 - 5.5"
+}
+
+export interface Biomarker {
+  name: string;
+  value: number | string; // string for qualitative results like "Negative"
+  unit?: string;
+  referenceRange?: ReferenceRange;
+  flag: BiomarkerFlag;
+  rangeCheck?: RangeCheck; // set when the report has no range of its own, or its range disagrees with the flag
+}
+
+// The flag a value gets by plain comparison with a reference range, to check the model's flag
+export interface RangeCheck {
+  flag: BiomarkerFlag;
+  source: 'report' | 'reference'; // the range printed on the report, or the bundled one for the profile's sex and age
+  range: ReferenceRange; // in the value's unit
+  version?: string; // of the bundled analyte data, for 'reference'
+}
+
+export type ChangeDirection = 'up' | 'down' | 'same';
+export type ChangeAssessment = 'improved' | 'worsened' | 'unchanged' | 'unclear';
+
+// A value present in both reports of a comparison
+export interface BiomarkerChange {
+  name: string;
+  unit?: string;
+  before: number | string;
+  after: number | string;
+  direction: ChangeDirection;
+  assessment: ChangeAssessment;
+}
+
+export type AnalysisMode = 'single' | 'compare';
+
 export interface AnalysisResult {
+  mode?: AnalysisMode; // missing on results saved before comparisons existed
   text: string;
+  biomarkers: Biomarker[];
+  changes?: BiomarkerChange[]; // only for comparisons
+  profile?: PatientProfile; // the profile the analysis was made for
+  profileNotes?: ProfileNote[];
+  provider?: LLMProvider; // the provider that answered, after any fallbacks; missing on imports that don't say
+  model?: string; // the model that produced the output
+  importedFrom?: string; // the kind of file an imported result was read from, e.g. 'FHIR bundle'
+  attempts?: ProviderAttempt[]; // providers that failed before one answered
+  timestamp: number;
+}
+
+// One provider's answer in consensus mode, filled in as it streams
+export interface ConsensusAnswer {
   provider: LLMProvider;
+  status: 'running' | 'done' | 'failed';
+  streamingText?: string;
+  result?: AnalysisResult;
+  error?: string;
+  saveStatus?: 'saving' | 'saved' | 'failed'; // set once the user keeps this answer in the history
+}
+
+// A biomarker as read by each provider in consensus mode
+export interface ConsensusRow {
+  name: string;
+  unit: string; // unit the readings are compared in
+  readings: Partial<Record<LLMProvider, Biomarker>>; // missing for providers that didn't report it
+  missing: LLMProvider[];
+  valuesAgree: boolean;
+  flagsAgree: boolean;
+}
+
+// A provider in the fallback chain that couldn't answer
+export interface ProviderAttempt {
+  provider: LLMProvider;
+  model?: string;
+  error: string;
+  code: AnalysisErrorCode;
+  status?: number; // HTTP status from the provider, missing for network errors
+  retries: number;
+}
+
+// A rectangle on a page, as fractions of the page width and height
+export interface PageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A run of PDF text and where it sits on the page
+export interface PageTextItem extends PageRegion {
+  text: string;
+}
+
+// A single uploaded page, either an image file or a rendered PDF page
+export interface ReportPage {
+  id: string;
+  image: string; // data URL
+  original?: string; // photo as uploaded, kept for the before/after preview
+  processed?: string; // photo after rotating, cropping, straightening and compressing
+  adjustments?: string[]; // what preprocessing changed
+  text?: string; // PDF text layer for this page
+  textItems?: PageTextItem[]; // positioned text layer, used to redact the text as well
+  redactions?: PageRegion[]; // blacked out before the page is sent
+  redactedImage?: string; // the image with the redactions applied, sent instead of image
+}
+
+// A past analysis kept in the browser's history
+export interface AnalysisRecord {
+  id: string;
+  title: string;
+  createdAt: number;
+  thumbnail?: string; // small JPEG of the first page
+  contextText?: string;
+  profileId?: string; // missing on records saved before household profiles, they belong to the default profile
+  result: AnalysisResult;
+}
+
+// One measurement of a biomarker, converted to its trend's unit
+export interface TrendPoint {
+  recordId: string;
+  recordTitle: string;
   timestamp: number;
+  value: number;
+  flag: BiomarkerFlag;
+  referenceRange?: ReferenceRange;
+  originalValue: number | string;
+  originalUnit?: string;
+}
+
+// A biomarker tracked across every saved analysis
+export interface BiomarkerTrend {
+  key: string;
+  name: string;
+  unit: string;
+  points: TrendPoint[]; // oldest first
+  skipped: TrendPoint[]; // values that couldn't be converted to the trend's unit
+}
+
+// One side of a comparison, either a new upload or a saved analysis
+export interface ComparisonReport {
+  label: string;
+  date?: number;
+  images?: string[]; // new upload
+  reportText?: string;
+  biomarkers?: Biomarker[]; // saved analysis
 }
 
 export interface AnalysisRequest {
-  imageBase64?: string;
+  mode?: AnalysisMode; // defaults to 'single'
+  images: string[]; // data URLs, in page order; unused for comparisons
+  reports?: ComparisonReport[]; // earlier report first, only for comparisons
+  reportText?: string; // text layer extracted from uploaded PDFs
   contextText?: string;
+  messages?: ChatMessage[]; // follow-up conversation, starting with the prior answer
+  profile?: PatientProfile;
+  provider: LLMProvider;
+  baseUrl?: string;
+  model?: string; // falls back to the provider's default model
+  stream?: boolean; // respond with server-sent events instead of a single JSON body
+  maxRetries?: number; // per provider, capped by the server
+  fallbacks?: ProviderTarget[]; // tried in order when the provider fails, only on the user's own keys
+}
+
+// A provider to fall back to, with the user's settings for it
+export interface ProviderTarget {
   provider: LLMProvider;
+  baseUrl?: string;
+  model?: string;
 }
 
-export interface UsageLimits {
-  processedImages: {
-    count: number;
-    lastResetTime: number;
-  }
-}
\ No newline at end of file
+// What a caller sends, the provider settings are filled in from the user's settings
+export type AnalysisInput = Omit<AnalysisRequest, 'provider' | 'baseUrl' | 'model' | 'stream' | 'profile' | 'maxRetries' | 'fallbacks'>;
+
+// Events sent by /api/analyze when streaming, normalized across providers
+export type AnalysisStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; result: AnalysisResult }
+  | { type: 'error'; error: string; code: AnalysisErrorCode; provider?: LLMProvider };
+
+// Requests counted for one client in the current window
+export interface RateLimitEntry {
+  count: number;
+  resetAt: number; // when the window ends, ms since epoch
+}
+
+// Where the server keeps its rate limit counters
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>;
+  // Count a request, starting a new window of windowMs if there is none
+  increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+  // Take back a counted request that failed; does nothing once its window has ended
+  decrement(key: string): Promise<void>;
+}
+
+// Response of /api/quota
+export interface QuotaStatus {
+  limited: boolean; // false when the provider doesn't use the server's key
+  limit: number;
+  windowMs: number;
+  remaining: number;
+  resetAt: number | null; // null while no request has been counted
+}
@@ -0,0 +1,588 @@
+// Knowledge base of common blood tests: the names labs print for them, LOINC codes, canonical units,
+// molar masses for unit conversion, and reference intervals by sex and age.
+// The intervals are typical adult ranges from general lab references; a report's own range always comes first.
+
+import { PatientProfile, ReferenceRange, UnitSystem } from '../types';
+import { convertUnit, roundConverted } from './units';
+
+// Bump when entries change, results record which version checked their flags
+export const ANALYTES_VERSION = '2026.10';
+
+// Ranges without an age apply from this age on, and to profiles without one
+const ADULT_AGE = 18;
+
+interface LoincCodes {
+  display: string; // LOINC's name for the main code
+  code: string; // mass concentration, count, or the only code
+  molar?: string; // amount-of-substance concentration, e.g. mmol/L
+  percent?: string; // relative count, e.g. a differential in %
+}
+
+interface ReferenceInterval {
+  low?: number;
+  high?: number;
+  sex?: 'female' | 'male'; // both when unset
+  minAge?: number; // years, ADULT_AGE when unset
+  maxAge?: number; // years, exclusive
+}
+
+export interface Analyte {
+  key: string;
+  name: string;
+  synonyms: string[]; // other names on reports, abbreviations and translations
+  loinc: LoincCodes;
+  unit: string; // canonical unit, the intervals are in it
+  units?: Record<UnitSystem, string>; // for tests reported in different units by country, e.g. mg/dL or mmol/L
+  molarMass?: number; // g/mol, for converting between mass and molar units
+  ranges: ReferenceInterval[];
+}
+
+const ANALYTES: Analyte[] = [
+  {
+    key: 'hemoglobin',
+    name: 'Hemoglobin',
+    synonyms: ['Hgb', 'Hb', 'Haemoglobin', 'Hämoglobin', 'Hémoglobine', 'Hemoglobina', 'Emoglobina', 'Hemoglobine'],
+    loinc: { display: 'Hemoglobin [Mass/volume] in Blood', code: '718-7', molar: '59260-0' },
+    unit: 'g/dL',
+    units: { si: 'g/L', conventional: 'g/dL' },
+    molarMass: 16114, // per heme unit, as used for mmol/L
+    ranges: [
+      { low: 13.5, high: 17.5, sex: 'male' },
+      { low: 12.0, high: 15.5, sex: 'female' },
+      { low: 11.5, high: 15.5, minAge: 6, maxAge: 12 }
+    ]
+  },
+  {
+    key: 'hematocrit',
+    name: 'Hematocrit',
+    synonyms: ['Hct', 'Haematocrit', 'Hämatokrit', 'Hématocrite', 'Hematocrito', 'Ematocrito', 'Hematocriet', 'PCV', 'Packed cell volume'],
+    loinc: { display: 'Hematocrit [Volume Fraction] of Blood', code: '4544-3' },
+    unit: '%',
+    ranges: [
+      { low: 41, high: 50, sex: 'male' },
+      { low: 36, high: 44, sex: 'female' }
+    ]
+  },
+  {
+    key: 'redbloodcells',
+    name: 'Red blood cells',
+    synonyms: ['RBC', 'Red blood cell count', 'Erythrocytes', 'Erythrozyten', 'Hématies', 'Globules rouges', 'Eritrocitos', 'Glóbulos rojos', 'Eritrociti', 'Globuli rossi', 'Erytrocyten'],
+    loinc: { display: 'Erythrocytes [#/volume] in Blood', code: '789-8' },
+    unit: '10^12/L',
+    units: { si: '10^12/L', conventional: '10^6/µL' },
+    ranges: [
+      { low: 4.5, high: 5.9, sex: 'male' },
+      { low: 4.1, high: 5.1, sex: 'female' }
+    ]
+  },
+  {
+    key: 'whitebloodcells',
+    name: 'White blood cells',
+    synonyms: ['WBC', 'White blood cell count', 'Leukocytes', 'Leucocytes', 'Leukozyten', 'Globules blancs', 'Leucocitos', 'Glóbulos blancos', 'Leucociti', 'Globuli bianchi', 'Leukocyten'],
+    loinc: { display: 'Leukocytes [#/volume] in Blood', code: '6690-2' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ low: 4.0, high: 11.0 }]
+  },
+  {
+    key: 'platelets',
+    name: 'Platelets',
+    synonyms: ['PLT', 'Platelet count', 'Thrombocytes', 'Thrombozyten', 'Plaquettes', 'Plaquetas', 'Piastrine', 'Trombocitos', 'Trombocyten'],
+    loinc: { display: 'Platelets [#/volume] in Blood', code: '777-3' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ low: 150, high: 400 }]
+  },
+  {
+    key: 'mcv',
+    name: 'MCV',
+    synonyms: ['Mean corpuscular volume', 'Mittleres korpuskuläres Volumen', 'VGM', 'VCM'],
+    loinc: { display: 'MCV [Entitic volume]', code: '787-2' },
+    unit: 'fL',
+    ranges: [{ low: 80, high: 100 }]
+  },
+  {
+    key: 'mch',
+    name: 'MCH',
+    synonyms: ['Mean corpuscular hemoglobin', 'TCMH', 'HCM'],
+    loinc: { display: 'MCH [Entitic mass]', code: '785-6' },
+    unit: 'pg',
+    ranges: [{ low: 27, high: 33 }]
+  },
+  {
+    key: 'mchc',
+    name: 'MCHC',
+    synonyms: ['Mean corpuscular hemoglobin concentration', 'CCMH', 'CHCM'],
+    loinc: { display: 'MCHC [Mass/volume]', code: '786-4' },
+    unit: 'g/dL',
+    units: { si: 'g/L', conventional: 'g/dL' },
+    ranges: [{ low: 32, high: 36 }]
+  },
+  {
+    key: 'rdw',
+    name: 'RDW',
+    synonyms: ['RDW-CV', 'Red cell distribution width', 'Erythrocyte distribution width', 'IDR', 'Erythrozytenverteilungsbreite'],
+    loinc: { display: 'Erythrocyte distribution width [Ratio]', code: '788-0' },
+    unit: '%',
+    ranges: [{ low: 11.5, high: 14.5 }]
+  },
+  {
+    key: 'neutrophils',
+    name: 'Neutrophils',
+    synonyms: ['Neutrophil count', 'Neutrophile', 'Neutrophiles', 'Neutrófilos', 'Neutrofili', 'Neutrofielen'],
+    loinc: { display: 'Neutrophils [#/volume] in Blood', code: '751-8', percent: '770-8' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ low: 1.8, high: 7.7 }]
+  },
+  {
+    key: 'lymphocytes',
+    name: 'Lymphocytes',
+    synonyms: ['Lymphocyte count', 'Lymphozyten', 'Linfocitos', 'Linfociti', 'Lymfocyten'],
+    loinc: { display: 'Lymphocytes [#/volume] in Blood', code: '731-0', percent: '736-9' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ low: 1.0, high: 4.8 }]
+  },
+  {
+    key: 'monocytes',
+    name: 'Monocytes',
+    synonyms: ['Monocyte count', 'Monozyten', 'Monocitos', 'Monociti', 'Monocyten'],
+    loinc: { display: 'Monocytes [#/volume] in Blood', code: '742-7', percent: '5905-5' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ low: 0.2, high: 1.0 }]
+  },
+  {
+    key: 'eosinophils',
+    name: 'Eosinophils',
+    synonyms: ['Eosinophil count', 'Eosinophile', 'Éosinophiles', 'Eosinófilos', 'Eosinofili', 'Eosinofielen'],
+    loinc: { display: 'Eosinophils [#/volume] in Blood', code: '711-2', percent: '713-8' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ high: 0.5 }]
+  },
+  {
+    key: 'basophils',
+    name: 'Basophils',
+    synonyms: ['Basophil count', 'Basophile', 'Basophiles', 'Basófilos', 'Basofili', 'Basofielen'],
+    loinc: { display: 'Basophils [#/volume] in Blood', code: '704-7', percent: '706-2' },
+    unit: '10^9/L',
+    units: { si: '10^9/L', conventional: '10^3/µL' },
+    ranges: [{ high: 0.2 }]
+  },
+  {
+    key: 'glucose',
+    name: 'Glucose',
+    synonyms: ['Fasting glucose', 'Glucose fasting', 'Blood sugar', 'Glu', 'Glukose', 'Blutzucker', 'Glycémie', 'Glucosa', 'Glucemia', 'Glicemia'],
+    loinc: { display: 'Glucose [Mass/volume] in Serum or Plasma', code: '2345-7', molar: '14749-6' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 180.16,
+    ranges: [{ low: 70, high: 99 }] // fasting
+  },
+  {
+    key: 'hba1c',
+    name: 'HbA1c',
+    synonyms: ['Hemoglobin A1c', 'A1c', 'Glycated hemoglobin', 'Glycohemoglobin', 'Glykiertes Hämoglobin', 'Hémoglobine glyquée', 'Hemoglobina glicosilada', 'Emoglobina glicata'],
+    loinc: { display: 'Hemoglobin A1c/Hemoglobin.total in Blood', code: '4548-4' },
+    unit: '%',
+    ranges: [{ high: 5.6 }]
+  },
+  {
+    key: 'totalcholesterol',
+    name: 'Total cholesterol',
+    synonyms: ['Cholesterol', 'Cholesterol total', 'Chol', 'Cholesterin', 'Gesamtcholesterin', 'Cholestérol total', 'Colesterol total', 'Colesterolo totale', 'Totaal cholesterol'],
+    loinc: { display: 'Cholesterol [Mass/volume] in Serum or Plasma', code: '2093-3', molar: '14647-2' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 386.65,
+    ranges: [{ high: 199 }]
+  },
+  {
+    key: 'hdlcholesterol',
+    name: 'HDL cholesterol',
+    synonyms: ['HDL', 'HDL-C', 'HDL-Cholesterin', 'Cholestérol HDL', 'Colesterol HDL', 'Colesterolo HDL'],
+    loinc: { display: 'Cholesterol in HDL [Mass/volume] in Serum or Plasma', code: '2085-9', molar: '14646-4' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 386.65,
+    ranges: [
+      { low: 40, sex: 'male' },
+      { low: 50, sex: 'female' }
+    ]
+  },
+  {
+    key: 'ldlcholesterol',
+    name: 'LDL cholesterol',
+    synonyms: ['LDL', 'LDL-C', 'LDL calculated', 'LDL-Cholesterin', 'Cholestérol LDL', 'Colesterol LDL', 'Colesterolo LDL'],
+    loinc: { display: 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation', code: '13457-7', molar: '39469-2' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 386.65,
+    ranges: [{ high: 129 }]
+  },
+  {
+    key: 'triglycerides',
+    name: 'Triglycerides',
+    synonyms: ['Triglyceride', 'TG', 'Trig', 'Triglyzeride', 'Triglycérides', 'Triglicéridos', 'Trigliceridi', 'Triglyceriden'],
+    loinc: { display: 'Triglyceride [Mass/volume] in Serum or Plasma', code: '2571-8', molar: '14927-8' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 885.7,
+    ranges: [{ high: 149 }]
+  },
+  {
+    key: 'creatinine',
+    name: 'Creatinine',
+    synonyms: ['Crea', 'Creat', 'Kreatinin', 'Créatinine', 'Creatinina'],
+    loinc: { display: 'Creatinine [Mass/volume] in Serum or Plasma', code: '2160-0', molar: '14682-9' },
+    unit: 'mg/dL',
+    units: { si: 'µmol/L', conventional: 'mg/dL' },
+    molarMass: 113.12,
+    ranges: [
+      { low: 0.74, high: 1.35, sex: 'male' },
+      { low: 0.59, high: 1.04, sex: 'female' }
+    ]
+  },
+  {
+    key: 'bun',
+    name: 'Blood urea nitrogen',
+    synonyms: ['BUN', 'Urea nitrogen', 'Harnstoff-Stickstoff'],
+    loinc: { display: 'Urea nitrogen [Mass/volume] in Serum or Plasma', code: '3094-0', molar: '22664-7' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 28.014, // the two nitrogen atoms of a urea molecule
+    ranges: [{ low: 7, high: 20 }]
+  },
+  {
+    key: 'urea',
+    name: 'Urea',
+    synonyms: ['Harnstoff', 'Urée', 'Ureum'],
+    loinc: { display: 'Urea [Mass/volume] in Serum or Plasma', code: '3091-6', molar: '22664-7' },
+    unit: 'mmol/L',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 60.06,
+    ranges: [{ low: 2.5, high: 7.8 }]
+  },
+  {
+    key: 'egfr',
+    name: 'eGFR',
+    synonyms: ['Estimated GFR', 'GFR estimated', 'Glomeruläre Filtrationsrate', 'Débit de filtration glomérulaire', 'DFG', 'Filtrado glomerular', 'Filtrato glomerulare'],
+    loinc: { display: 'Glomerular filtration rate/1.73 sq M.predicted (CKD-EPI)', code: '62238-1' },
+    unit: 'mL/min/1.73m²',
+    ranges: [{ low: 60 }]
+  },
+  {
+    key: 'sodium',
+    name: 'Sodium',
+    synonyms: ['Na', 'Natrium', 'Sodio', 'Sódio'],
+    loinc: { display: 'Sodium [Moles/volume] in Serum or Plasma', code: '2951-2' },
+    unit: 'mmol/L',
+    ranges: [{ low: 135, high: 145 }]
+  },
+  {
+    key: 'potassium',
+    name: 'Potassium',
+    synonyms: ['K', 'Kalium', 'Potasio', 'Potassio'],
+    loinc: { display: 'Potassium [Moles/volume] in Serum or Plasma', code: '2823-3' },
+    unit: 'mmol/L',
+    ranges: [{ low: 3.5, high: 5.1 }]
+  },
+  {
+    key: 'chloride',
+    name: 'Chloride',
+    synonyms: ['Cl', 'Chlorid', 'Chlorure', 'Cloruro'],
+    loinc: { display: 'Chloride [Moles/volume] in Serum or Plasma', code: '2075-0' },
+    unit: 'mmol/L',
+    ranges: [{ low: 98, high: 107 }]
+  },
+  {
+    key: 'bicarbonate',
+    name: 'Bicarbonate',
+    synonyms: ['CO2', 'Total CO2', 'HCO3', 'Bicarbonat', 'Bicarbonato'],
+    loinc: { display: 'Carbon dioxide, total [Moles/volume] in Serum or Plasma', code: '2028-9' },
+    unit: 'mmol/L',
+    ranges: [{ low: 22, high: 29 }]
+  },
+  {
+    key: 'calcium',
+    name: 'Calcium',
+    synonyms: ['Ca', 'Calcium total', 'Kalzium', 'Calcio'],
+    loinc: { display: 'Calcium [Mass/volume] in Serum or Plasma', code: '17861-6', molar: '2000-8' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 40.08,
+    ranges: [{ low: 8.6, high: 10.3 }]
+  },
+  {
+    key: 'magnesium',
+    name: 'Magnesium',
+    synonyms: ['Mg', 'Magnésium', 'Magnesio'],
+    loinc: { display: 'Magnesium [Mass/volume] in Serum or Plasma', code: '19123-9', molar: '2601-3' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 24.305,
+    ranges: [{ low: 1.7, high: 2.2 }]
+  },
+  {
+    key: 'phosphate',
+    name: 'Phosphate',
+    synonyms: ['Phosphorus', 'Inorganic phosphate', 'Phosphat', 'Phosphore', 'Fósforo', 'Fosforo', 'Fosfato'],
+    loinc: { display: 'Phosphate [Mass/volume] in Serum or Plasma', code: '2777-1', molar: '14879-1' },
+    unit: 'mg/dL',
+    units: { si: 'mmol/L', conventional: 'mg/dL' },
+    molarMass: 30.974, // as phosphorus
+    ranges: [
+      { low: 2.5, high: 4.5 },
+      { low: 4.0, high: 7.0, minAge: 1, maxAge: 12 }
+    ]
+  },
+  {
+    key: 'alt',
+    name: 'ALT',
+    synonyms: ['ALAT', 'GPT', 'SGPT', 'Alanine transaminase', 'Alanine aminotransferase', 'Alaninaminotransferase'],
+    loinc: { display: 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma', code: '1742-6' },
+    unit: 'U/L',
+    ranges: [{ high: 56 }]
+  },
+  {
+    key: 'ast',
+    name: 'AST',
+    synonyms: ['ASAT', 'GOT', 'SGOT', 'Aspartate transaminase', 'Aspartate aminotransferase', 'Aspartataminotransferase'],
+    loinc: { display: 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma', code: '1920-8' },
+    unit: 'U/L',
+    ranges: [{ high: 48 }]
+  },
+  {
+    key: 'alp',
+    name: 'Alkaline phosphatase',
+    synonyms: ['ALP', 'ALKP', 'AP', 'Alkalische Phosphatase', 'Phosphatase alcaline', 'PAL', 'Fosfatasa alcalina', 'Fosfatasi alcalina'],
+    loinc: { display: 'Alkaline phosphatase [Enzymatic activity/volume] in Serum or Plasma', code: '6768-6' },
+    unit: 'U/L',
+    ranges: [{ low: 44, high: 147 }]
+  },
+  {
+    key: 'ggt',
+    name: 'GGT',
+    synonyms: ['Gamma-GT', 'GGTP', 'Gamma glutamyl transferase', 'Gamma-Glutamyltransferase'],
+    loinc: { display: 'Gamma glutamyl transferase [Enzymatic activity/volume] in Serum or Plasma', code: '2324-2' },
+    unit: 'U/L',
+    ranges: [
+      { high: 61, sex: 'male' },
+      { high: 36, sex: 'female' }
+    ]
+  },
+  {
+    key: 'totalbilirubin',
+    name: 'Total bilirubin',
+    synonyms: ['Bilirubin', 'Bilirubin total', 'TBIL', 'Gesamtbilirubin', 'Bilirubine totale', 'Bilirrubina total', 'Bilirubina totale'],
+    loinc: { display: 'Bilirubin.total [Mass/volume] in Serum or Plasma', code: '1975-2', molar: '14631-6' },
+    unit: 'mg/dL',
+    units: { si: 'µmol/L', conventional: 'mg/dL' },
+    molarMass: 584.66,
+    ranges: [{ high: 1.2 }]
+  },
+  {
+    key: 'albumin',
+    name: 'Albumin',
+    synonyms: ['Alb', 'Albumine', 'Albúmina', 'Albumina'],
+    loinc: { display: 'Albumin [Mass/volume] in Serum or Plasma', code: '1751-7' },
+    unit: 'g/dL',
+    units: { si: 'g/L', conventional: 'g/dL' },
+    ranges: [{ low: 3.5, high: 5.0 }]
+  },
+  {
+    key: 'totalprotein',
+    name: 'Total protein',
+    synonyms: ['Protein', 'Gesamteiweiß', 'Gesamtprotein', 'Protéines totales', 'Proteínas totales', 'Proteine totali'],
+    loinc: { display: 'Protein [Mass/volume] in Serum or Plasma', code: '2885-2' },
+    unit: 'g/dL',
+    units: { si: 'g/L', conventional: 'g/dL' },
+    ranges: [{ low: 6.0, high: 8.3 }]
+  },
+  {
+    key: 'uricacid',
+    name: 'Uric acid',
+    synonyms: ['Urate', 'Harnsäure', 'Acide urique', 'Ácido úrico', 'Acido urico', 'Urinezuur'],
+    loinc: { display: 'Urate [Mass/volume] in Serum or Plasma', code: '3084-1', molar: '14933-6' },
+    unit: 'mg/dL',
+    units: { si: 'µmol/L', conventional: 'mg/dL' },
+    molarMass: 168.11,
+    ranges: [
+      { low: 3.4, high: 7.0, sex: 'male' },
+      { low: 2.4, high: 6.0, sex: 'female' }
+    ]
+  },
+  {
+    key: 'tsh',
+    name: 'TSH',
+    synonyms: ['Thyroid stimulating hormone', 'Thyrotropin', 'TSH basal', 'Thyréostimuline', 'Tirotropina'],
+    loinc: { display: 'Thyrotropin [Units/volume] in Serum or Plasma', code: '3016-3' },
+    unit: 'mIU/L',
+    ranges: [{ low: 0.4, high: 4.0 }]
+  },
+  {
+    key: 'freet4',
+    name: 'Free T4',
+    synonyms: ['FT4', 'Free thyroxine', 'Freies T4', 'Freies Thyroxin', 'T4 libre', 'Thyroxine libre', 'T4 libera'],
+    loinc: { display: 'Thyroxine (T4) free [Mass/volume] in Serum or Plasma', code: '3024-7' },
+    unit: 'ng/dL',
+    units: { si: 'pmol/L', conventional: 'ng/dL' },
+    molarMass: 776.87,
+    ranges: [{ low: 0.8, high: 1.8 }]
+  },
+  {
+    key: 'ferritin',
+    name: 'Ferritin',
+    synonyms: ['Ferritine', 'Ferritina'],
+    loinc: { display: 'Ferritin [Mass/volume] in Serum or Plasma', code: '2276-4' },
+    unit: 'ng/mL',
+    units: { si: 'µg/L', conventional: 'ng/mL' },
+    ranges: [
+      { low: 24, high: 336, sex: 'male' },
+      { low: 11, high: 307, sex: 'female' }
+    ]
+  },
+  {
+    key: 'iron',
+    name: 'Iron',
+    synonyms: ['Fe', 'Serum iron', 'Eisen', 'Fer', 'Hierro', 'Ferro', 'Ijzer'],
+    loinc: { display: 'Iron [Mass/volume] in Serum or Plasma', code: '2498-4', molar: '14798-3' },
+    unit: 'µg/dL',
+    units: { si: 'µmol/L', conventional: 'µg/dL' },
+    molarMass: 55.845,
+    ranges: [
+      { low: 65, high: 176, sex: 'male' },
+      { low: 50, high: 170, sex: 'female' }
+    ]
+  },
+  {
+    key: 'vitaminb12',
+    name: 'Vitamin B12',
+    synonyms: ['B12', 'Cobalamin', 'Cobalamine', 'Vitamine B12', 'Vitamina B12'],
+    loinc: { display: 'Cobalamin (Vitamin B12) [Mass/volume] in Serum or Plasma', code: '2132-9', molar: '14685-2' },
+    unit: 'pg/mL',
+    units: { si: 'pmol/L', conventional: 'pg/mL' },
+    molarMass: 1355.37,
+    ranges: [{ low: 200, high: 900 }]
+  },
+  {
+    key: 'folate',
+    name: 'Folate',
+    synonyms: ['Folic acid', 'Folsäure', 'Acide folique', 'Ácido fólico', 'Acido folico'],
+    loinc: { display: 'Folate [Mass/volume] in Serum or Plasma', code: '2284-8', molar: '14732-2' },
+    unit: 'ng/mL',
+    units: { si: 'nmol/L', conventional: 'ng/mL' },
+    molarMass: 441.4,
+    ranges: [{ low: 3.0 }]
+  },
+  {
+    key: 'vitamind',
+    name: 'Vitamin D',
+    synonyms: ['25-OH vitamin D', '25(OH)D', '25-Hydroxyvitamin D', 'Vitamin D 25-OH', 'Calcidiol', 'Vitamine D', 'Vitamina D'],
+    loinc: { display: '25-Hydroxyvitamin D2+D3 [Mass/volume] in Serum or Plasma', code: '62292-8' },
+    unit: 'ng/mL',
+    units: { si: 'nmol/L', conventional: 'ng/mL' },
+    molarMass: 400.64,
+    ranges: [{ low: 30, high: 100 }]
+  },
+  {
+    key: 'crp',
+    name: 'CRP',
+    synonyms: ['C-reactive protein', 'C-reaktives Protein', 'Protéine C réactive', 'Proteína C reactiva', 'Proteina C reattiva'],
+    loinc: { display: 'C reactive protein [Mass/volume] in Serum or Plasma', code: '1988-5' },
+    unit: 'mg/L',
+    ranges: [{ high: 5 }]
+  },
+  {
+    key: 'hscrp',
+    name: 'hs-CRP',
+    synonyms: ['High sensitivity CRP', 'CRP high sensitivity', 'hs C-reactive protein'],
+    loinc: { display: 'C reactive protein [Mass/volume] in Serum or Plasma by High sensitivity method', code: '30522-7' },
+    unit: 'mg/L',
+    ranges: [{ high: 3 }]
+  }
+];
+
+// Group key for a biomarker name, so "LDL-Cholesterol" and "LDL cholesterol" land together;
+// accents are dropped, so "Hämoglobin" and "Hamoglobin" do too
+export const getBiomarkerKey = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .replace(/[^a-z0-9]+/g, '');
+};
+
+const ANALYTE_LOOKUP = new Map<string, Analyte>();
+ANALYTES.forEach(analyte => {
+  [analyte.key, analyte.name, ...analyte.synonyms].forEach(name => {
+    ANALYTE_LOOKUP.set(getBiomarkerKey(name), analyte);
+  });
+});
+
+// Words that name the specimen rather than the test, as in "Glucose, serum"
+const SPECIMEN_WORDS = /\b(serum|plasma|blood|whole|venous|in)\b/gi;
+
+// The analyte a name on a report refers to, trying the name as a whole,
+// without a parenthesized part or specimen, and the parenthesized part alone, e.g. "Hemoglobin (HGB)"
+export const findAnalyte = (name: string): Analyte | undefined => {
+  const inParentheses = name.match(/\(([^)]*)\)/)?.[1];
+  const candidates = [
+    name,
+    name.replace(/\([^)]*\)/g, ''),
+    name.replace(/\([^)]*\)/g, '').replace(SPECIMEN_WORDS, ''),
+    ...(inParentheses ? [inParentheses] : [])
+  ];
+
+  for (const candidate of candidates) {
+    const analyte = ANALYTE_LOOKUP.get(getBiomarkerKey(candidate));
+    if (analyte) return analyte;
+  }
+  return undefined;
+};
+
+// Group key that puts every name of a known analyte together, e.g. "Hgb" and "Hämoglobin"
+export const getAnalyteKey = (name: string): string => {
+  return findAnalyte(name)?.key || getBiomarkerKey(name);
+};
+
+const appliesToAge = (interval: ReferenceInterval, age: number) => {
+  return age >= (interval.minAge ?? ADULT_AGE) && (interval.maxAge === undefined || age < interval.maxAge);
+};
+
+// The analyte's reference range for a profile, in the given unit.
+// Without a sex, or with 'other', the widest range of both is used so nothing is flagged that one of them wouldn't.
+// Undefined in pregnancy, where many ranges shift, for ages without a range, and for units it can't be converted to.
+export const getReferenceRange = (analyte: Analyte, unit: string, profile?: PatientProfile): ReferenceRange | undefined => {
+  if (profile?.pregnant) {
+    return undefined;
+  }
+
+  const age = profile?.age ?? ADULT_AGE;
+  const sex = profile?.sex === 'female' || profile?.sex === 'male' ? profile.sex : undefined;
+  const intervals = analyte.ranges.filter(interval => appliesToAge(interval, age) && (!sex || !interval.sex || interval.sex === sex));
+  if (intervals.length === 0) {
+    return undefined;
+  }
+
+  const lows = intervals.map(interval => interval.low);
+  const highs = intervals.map(interval => interval.high);
+  const low = lows.every(value => value !== undefined) ? Math.min(...lows as number[]) : undefined;
+  const high = highs.every(value => value !== undefined) ? Math.max(...highs as number[]) : undefined;
+
+  const range: ReferenceRange = {};
+  if (low !== undefined) {
+    const converted = convertUnit(low, analyte.unit, unit, analyte.molarMass);
+    if (converted === null) return undefined;
+    range.low = roundConverted(converted);
+  }
+  if (high !== undefined) {
+    const converted = convertUnit(high, analyte.unit, unit, analyte.molarMass);
+    if (converted === null) return undefined;
+    range.high = roundConverted(converted);
+  }
+  return Object.keys(range).length > 0 ? range : undefined;
+};
@@ -0,0 +1,98 @@
+'use client';
+
+import { AnalysisErrorBody, AnalysisInput, AnalysisResult, AnalysisStreamEvent, LLMProvider } from '../types';
+import { getProvider } from '../providers';
+import { AnalysisError } from '../providers/errors';
+import { getApiKey, getBaseUrl, getFallbackProviders, getMaxRetries, getModel, getProfile } from './settings';
+import { resizeImage } from './image';
+import { readSSE } from './sse';
+
+interface RequestAnalysisOptions {
+  signal?: AbortSignal;
+  onDelta?: (text: string) => void; // called with the full text received so far
+  useFallbacks?: boolean; // defaults to true, consensus mode wants each provider's own answer
+  model?: string; // instead of the model set for the provider, e.g. the one that wrote an earlier answer
+}
+
+// Send a request to /api/analyze with the provider's settings and resolve with the finished result
+export const requestAnalysis = async (
+  provider: LLMProvider,
+  input: AnalysisInput,
+  { signal, onDelta, useFallbacks = true, model }: RequestAnalysisOptions = {}
+): Promise<AnalysisResult> => {
+  const adapter = getProvider(provider);
+  const fallbacks = useFallbacks ? getFallbackProviders(provider) : [];
+
+  // The user's key for every provider in the chain, each in its own header
+  const keyHeaders: Record<string, string> = {};
+  for (const id of [provider, ...fallbacks]) {
+    const apiKey = getApiKey(id);
+    if (apiKey) {
+      keyHeaders[getProvider(id).keyHeader] = apiKey;
+    }
+  }
+
+  // Send no more pixels than the provider uses
+  const fit = (images: string[]) => Promise.all(images.map(image => resizeImage(image, adapter.capabilities.maxImageSize)));
+  const images = await fit(input.images);
+  const reports = input.reports && await Promise.all(input.reports.map(async report => (
+    report.images ? { ...report, images: await fit(report.images) } : report
+  )));
+
+  const response = await fetch('/api/analyze', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...keyHeaders,
+    },
+    body: JSON.stringify({
+      ...input,
+      images,
+      reports,
+      provider,
+      baseUrl: getBaseUrl(provider),
+      model: model || getModel(provider),
+      profile: getProfile(),
+      stream: adapter.capabilities.streaming,
+      maxRetries: getMaxRetries(),
+      fallbacks: fallbacks.map(fallback => ({
+        provider: fallback,
+        baseUrl: getBaseUrl(fallback),
+        model: getModel(fallback)
+      }))
+    }),
+    signal
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({})) as Partial<AnalysisErrorBody>;
+    throw new AnalysisError(
+      data.code || 'unknown',
+      data.error || 'Failed to analyze blood test',
+      data.provider,
+      response.status
+    );
+  }
+
+  // Providers without streaming answer with a single JSON body
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const data = await response.json();
+    return data.result;
+  }
+
+  let text = '';
+  for await (const data of readSSE(response.body)) {
+    const event = JSON.parse(data) as AnalysisStreamEvent;
+
+    if (event.type === 'delta') {
+      text += event.text;
+      onDelta?.(text);
+    } else if (event.type === 'done') {
+      return event.result;
+    } else if (event.type === 'error') {
+      throw new AnalysisError(event.code, event.error, event.provider);
+    }
+  }
+
+  throw new AnalysisError('upstream_outage', 'The analysis ended unexpectedly, please try again', provider);
+};
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisRecord } from '../types';
+import { listAllAnalyses } from './history';
+import { loadSettings, saveSettings } from './settings';
+import { exportBiomarkersCsv, importBackup, readBackup } from './backup';
+
+// The history lives in IndexedDB, which tests don't have
+vi.mock('./history', () => ({
+  listAllAnalyses: vi.fn(),
+  rewriteAnalyses: vi.fn()
+}));
+
+// Settings live in localStorage, the tests only look at what would be saved
+vi.mock('./settings', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./settings')>(),
+  loadSettings: vi.fn(),
+  saveSettings: vi.fn()
+}));
+
+const record: AnalysisRecord = {
+  id: '1',
+  title: 'Checkup',
+  createdAt: Date.UTC(2026, 9, 1),
+  result: {
+    text: 'Report',
+    biomarkers: [{ name: 'Glucose', value: 95, unit: 'mg/dL', referenceRange: { low: 70, high: 99 }, flag: 'normal' }],
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    timestamp: Date.UTC(2026, 9, 1)
+  }
+};
+
+const toFile = (data: unknown) => new File([JSON.stringify(data)], 'backup.json', { type: 'application/json' });
+
+describe('readBackup', () => {
+  it('keeps valid analyses and counts the others', async () => {
+    const { text, biomarkers, timestamp } = record.result;
+    const imported: AnalysisRecord = { ...record, id: '3', result: { text, biomarkers, timestamp, importedFrom: 'FHIR bundle' } };
+    const { archive, invalid } = await readBackup(toFile({
+      format: 'bloodq-backup',
+      version: 1,
+      exportedAt: 1,
+      settings: { preferredProvider: 'claude', models: { claude: 'x', unknown: 'y' }, unitSystem: 'imperial' },
+      analyses: [
+        record,
+        imported,
+        { ...record, id: 2 },
+        { ...record, result: { ...record.result, provider: 'someone' } },
+        { ...record, result: { ...record.result, biomarkers: [{ name: 'Glucose', value: 95, flag: 'critical' }] } }
+      ]
+    }));
+
+    expect(archive.analyses).toEqual([record, imported]);
+    expect(invalid).toBe(3);
+    expect(archive.settings).toMatchObject({ preferredProvider: 'claude', models: { claude: 'x' }, unitSystem: undefined });
+    expect(archive.apiKeys).toBeUndefined();
+  });
+
+  it('type-checks every text field of an analysis', async () => {
+    const glucose = record.result.biomarkers[0];
+    const checked: AnalysisRecord = {
+      ...record,
+      id: '2',
+      result: { ...record.result, biomarkers: [{ ...glucose, rangeCheck: { flag: 'normal', source: 'reference', range: { low: 70, high: 99 } } }] }
+    };
+    const { archive, invalid } = await readBackup(toFile({
+      format: 'bloodq-backup',
+      version: 1,
+      exportedAt: 1,
+      analyses: [
+        checked,
+        { ...record, title: 42 },
+        { ...record, contextText: { note: 'x' } },
+        { ...record, result: { ...record.result, text: null } },
+        { ...record, result: { ...record.result, biomarkers: [{ ...glucose, unit: 5 }] } },
+        { ...record, result: { ...record.result, biomarkers: [{ ...glucose, referenceRange: { low: 70, text: 99 } }] } },
+        { ...record, result: { ...record.result, biomarkers: [{ ...glucose, rangeCheck: { flag: 'normal', source: 'guess', range: {} } }] } },
+        { ...record, result: { ...record.result, changes: 'none' } }
+      ]
+    }));
+
+    expect(archive.analyses).toEqual([checked]);
+    expect(invalid).toBe(7);
+  });
+
+  it('rejects files that are not Bloodq backups', async () => {
+    await expect(readBackup(new File(['{'], 'backup.json'))).rejects.toThrow('not valid JSON');
+    await expect(readBackup(toFile({ format: 'other', version: 1 }))).rejects.toThrow('not a Bloodq backup');
+    await expect(readBackup(toFile({ format: 'bloodq-backup', version: 99 }))).rejects.toThrow('newer version');
+  });
+});
+
+describe('exportBiomarkersCsv', () => {
+  beforeEach(() => {
+    vi.mocked(listAllAnalyses).mockReset();
+  });
+
+  // Blob.text() drops the byte order mark, decode it by hand to see it
+  const readCsv = async () => new TextDecoder('utf-8', { ignoreBOM: true }).decode(await (await exportBiomarkersCsv()).arrayBuffer());
+
+  it('writes one row per value with a header', async () => {
+    vi.mocked(listAllAnalyses).mockResolvedValue([record]);
+    const lines = (await readCsv()).split('\r\n');
+
+    expect(lines[0]).toBe('\uFEFFProfile,Analysis,Date,Provider,Model,Test,Value,Unit,Reference Low,Reference High,Reference Range,Flag');
+    expect(lines[1]).toBe('Me,Checkup,2026-10-01T00:00:00.000Z,gemini,gemini-2.5-flash,Glucose,95,mg/dL,70,99,,normal');
+  });
+
+  it('keeps spreadsheets from running text cells as formulas', async () => {
+    vi.mocked(listAllAnalyses).mockResolvedValue([{
+      ...record,
+      title: '=HYPERLINK("http://example.com")',
+      result: { ...record.result, biomarkers: [{ name: '@SUM(A1)', value: '-5', unit: '+x', flag: 'low' }] }
+    }]);
+    const row = (await readCsv()).split('\r\n')[1];
+
+    expect(row).toContain(`"'=HYPERLINK(""http://example.com"")"`);
+    expect(row).toContain(`'@SUM(A1),'-5,'+x`);
+  });
+
+  it('leaves negative numbers alone', async () => {
+    vi.mocked(listAllAnalyses).mockResolvedValue([{
+      ...record,
+      result: { ...record.result, biomarkers: [{ name: 'Base excess', value: -2, unit: 'mmol/L', flag: 'normal' }] }
+    }]);
+    expect((await readCsv()).split('\r\n')[1]).toContain('Base excess,-2,mmol/L');
+  });
+});
+
+describe('importBackup', () => {
+  it('keeps the current settings when restoring from a profile export', async () => {
+    vi.mocked(listAllAnalyses).mockResolvedValue([]);
+    vi.mocked(loadSettings).mockImplementation(() => ({
+      apiKeys: {},
+      preferredProvider: 'claude',
+      baseUrls: { local: 'http://localhost:11434/v1' },
+      models: { claude: 'claude-sonnet-4' },
+      maxRetries: 3,
+      unitSystem: 'si'
+    }));
+
+    const pending = await readBackup(toFile({
+      format: 'bloodq-profile',
+      version: 1,
+      profile: { id: 'p1', name: 'Sam', patient: { age: 40 } },
+      analyses: []
+    }));
+    expect(pending.profileExport).toBe(true);
+
+    await importBackup(pending.archive, { duplicates: 'skip', restoreSettings: true });
+    expect(vi.mocked(saveSettings).mock.calls[0][0]).toMatchObject({
+      preferredProvider: 'claude',
+      baseUrls: { local: 'http://localhost:11434/v1' },
+      models: { claude: 'claude-sonnet-4' },
+      maxRetries: 3,
+      unitSystem: 'si',
+      profiles: expect.arrayContaining([expect.objectContaining({ id: 'p1', name: 'Sam' })])
+    });
+  });
+});
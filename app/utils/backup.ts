@@ -0,0 +1,398 @@
+'use client';
+
+import { AnalysisErrorCode, AnalysisMode, AnalysisRecord, AnalysisResult, ApiKeys, Biomarker, BiomarkerFlag, EncryptedPayload, HouseholdProfile, ProfileField, ProfileNote, ProviderAttempt, RangeCheck, UnitSystem, UserSettings } from '../types';
+import { isProvider, PROVIDER_IDS } from '../providers';
+import { ERROR_STATUS } from '../providers/errors';
+import { listAllAnalyses, rewriteAnalyses } from './history';
+import { DEFAULT_PROFILE_ID, getActiveProfileId, getHouseholdProfiles, loadSettings, saveSettings } from './settings';
+import { decryptJson, deriveKey, encryptJson, fromBase64, PBKDF2_ITERATIONS, randomBytes, toBase64 } from './crypto';
+import { validateBiomarker } from './biomarkers';
+import { validateChange } from './comparison';
+import { normalizeProfile, PROFILE_FIELD_LABELS } from './profile';
+import { MIN_PASSPHRASE_LENGTH } from './security';
+
+export const BACKUP_VERSION = 1;
+
+// API keys in a backup, encrypted with a passphrase chosen when exporting
+interface EncryptedApiKeys {
+  salt: string; // base64
+  iterations: number;
+  keys: EncryptedPayload;
+}
+
+// Everything Bloodq stores, as a JSON file; API keys are left out unless encrypted
+export interface BackupArchive {
+  format: 'bloodq-backup';
+  version: number;
+  exportedAt: number;
+  settings: Omit<UserSettings, 'apiKeys' | 'activeProfileId' | 'profile'>;
+  apiKeys?: EncryptedApiKeys;
+  analyses: AnalysisRecord[];
+}
+
+// What to do with an imported analysis that is already in the history
+export type DuplicateStrategy = 'skip' | 'replace' | 'keep';
+
+export interface ImportOptions {
+  duplicates: DuplicateStrategy;
+  restoreSettings: boolean; // provider, models, endpoints, retries and units; profiles are always merged
+  passphrase?: string; // for the API keys, they are skipped without it
+}
+
+export interface ImportSummary {
+  added: number;
+  replaced: number;
+  skipped: number;
+  profiles: number; // profiles added or replaced
+  apiKeys: number;
+}
+
+// A backup that passed validation, with the records that didn't counted
+export interface ReadBackup {
+  archive: BackupArchive;
+  invalid: number;
+  profileExport: boolean; // a single profile's export, which carries no settings to restore
+}
+
+const FLAGS: BiomarkerFlag[] = ['high', 'low', 'normal'];
+const UNIT_SYSTEMS: UnitSystem[] = ['si', 'conventional'];
+const MODES: AnalysisMode[] = ['single', 'compare'];
+const RANGE_SOURCES: RangeCheck['source'][] = ['report', 'reference'];
+const PROFILE_FIELDS = Object.keys(PROFILE_FIELD_LABELS) as ProfileField[];
+const ERROR_CODES = Object.keys(ERROR_STATUS) as AnalysisErrorCode[];
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Every entry of an optional list read with the given function, null when any of them fails
+const readList = <T>(value: unknown, read: (item: unknown) => T | null): T[] | undefined | null => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) return null;
+  const items = value.map(read);
+  return items.every(item => item !== null) ? items as T[] : null;
+};
+
+const readRangeCheck = (value: unknown): RangeCheck | null => {
+  if (!isObject(value) || !FLAGS.includes(value.flag as BiomarkerFlag) || !RANGE_SOURCES.includes(value.source as RangeCheck['source'])) return null;
+  if (!isObject(value.range) || !isOptional(value.range.low, isFiniteNumber) || !isOptional(value.range.high, isFiniteNumber)) return null;
+  if (!isOptional(value.version, isString)) return null;
+  return {
+    flag: value.flag as BiomarkerFlag,
+    source: value.source as RangeCheck['source'],
+    range: { ...(value.range.low !== undefined && { low: value.range.low }), ...(value.range.high !== undefined && { high: value.range.high }) },
+    ...(value.version !== undefined && { version: value.version })
+  };
+};
+
+// The same checks as a model's output, keeping the range check Bloodq added
+const readBiomarker = (value: unknown): Biomarker | null => {
+  const biomarker = validateBiomarker(value);
+  if (!biomarker || !isObject(value) || !isOptional(value.unit, isString)) return null;
+  const range = value.referenceRange;
+  if (range !== undefined && (!isObject(range) || !biomarker.referenceRange)) return null;
+  if (isObject(range) && (!isOptional(range.low, isFiniteNumber) || !isOptional(range.high, isFiniteNumber) || !isOptional(range.text, isString))) return null;
+  if (value.rangeCheck === undefined) return biomarker;
+  const rangeCheck = readRangeCheck(value.rangeCheck);
+  return rangeCheck ? { ...biomarker, rangeCheck } : null;
+};
+
+const readProfileNote = (value: unknown): ProfileNote | null => {
+  return isObject(value) && PROFILE_FIELDS.includes(value.field as ProfileField) && isString(value.note)
+    ? { field: value.field as ProfileField, note: value.note }
+    : null;
+};
+
+const readAttempt = (value: unknown): ProviderAttempt | null => {
+  if (!isObject(value) || !isProvider(value.provider) || !isString(value.error) || !ERROR_CODES.includes(value.code as AnalysisErrorCode)) return null;
+  if (!isOptional(value.model, isString) || !isOptional(value.status, isFiniteNumber) || !isFiniteNumber(value.retries)) return null;
+  return {
+    provider: value.provider,
+    error: value.error,
+    code: value.code as AnalysisErrorCode,
+    retries: value.retries,
+    ...(value.model !== undefined && { model: value.model }),
+    ...(value.status !== undefined && { status: value.status })
+  };
+};
+
+const readResult = (value: unknown): AnalysisResult | null => {
+  if (!isObject(value) || !isString(value.text) || !isFiniteNumber(value.timestamp)) return null;
+  if (!isOptional(value.mode, (mode): mode is AnalysisMode => MODES.includes(mode as AnalysisMode))) return null;
+  if (!isOptional(value.provider, isProvider) || !isOptional(value.model, isString) || !isOptional(value.importedFrom, isString)) return null;
+
+  const biomarkers = readList(value.biomarkers, readBiomarker);
+  const changes = readList(value.changes, validateChange);
+  const profileNotes = readList(value.profileNotes, readProfileNote);
+  const attempts = readList(value.attempts, readAttempt);
+  if (!biomarkers || changes === null || profileNotes === null || attempts === null) return null;
+
+  const profile = normalizeProfile(value.profile);
+  return {
+    ...(value.mode !== undefined && { mode: value.mode }),
+    text: value.text,
+    biomarkers,
+    ...(changes && { changes }),
+    ...(profile && { profile }),
+    ...(profileNotes && { profileNotes }),
+    ...(value.provider !== undefined && { provider: value.provider }),
+    ...(value.model !== undefined && { model: value.model }),
+    ...(value.importedFrom !== undefined && { importedFrom: value.importedFrom }),
+    ...(attempts && { attempts }),
+    timestamp: value.timestamp
+  };
+};
+
+// A stored analysis with every field type-checked, null if any of them is wrong
+const readRecord = (value: unknown): AnalysisRecord | null => {
+  if (!isObject(value) || !isString(value.id) || !isString(value.title) || !isFiniteNumber(value.createdAt)) return null;
+  if (!isOptional(value.thumbnail, isString) || !isOptional(value.contextText, isString) || !isOptional(value.profileId, isString)) return null;
+
+  const result = readResult(value.result);
+  if (!result) return null;
+  return {
+    id: value.id,
+    title: value.title,
+    createdAt: value.createdAt,
+    ...(value.thumbnail !== undefined && { thumbnail: value.thumbnail }),
+    ...(value.contextText !== undefined && { contextText: value.contextText }),
+    ...(value.profileId !== undefined && { profileId: value.profileId }),
+    result
+  };
+};
+
+const readProfile = (value: unknown): HouseholdProfile | null => {
+  if (!isObject(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null;
+  return {
+    id: value.id,
+    name: value.name,
+    patient: normalizeProfile(value.patient),
+    createdAt: Number.isFinite(value.createdAt) ? value.createdAt as number : Date.now()
+  };
+};
+
+// Only provider ids as keys and strings as values
+const readProviderStrings = (value: unknown) => {
+  if (!isObject(value)) return undefined;
+  return Object.fromEntries(PROVIDER_IDS.flatMap(provider => (
+    typeof value[provider] === 'string' ? [[provider, value[provider] as string]] : []
+  )));
+};
+
+const readSettings = (value: unknown): BackupArchive['settings'] => {
+  const settings = isObject(value) ? value : {};
+  return {
+    preferredProvider: isProvider(settings.preferredProvider) ? settings.preferredProvider : 'gemini',
+    baseUrls: readProviderStrings(settings.baseUrls),
+    models: readProviderStrings(settings.models),
+    profiles: Array.isArray(settings.profiles)
+      ? settings.profiles.map(readProfile).filter((profile): profile is HouseholdProfile => profile !== null)
+      : undefined,
+    maxRetries: Number.isFinite(settings.maxRetries) ? settings.maxRetries as number : undefined,
+    fallbackProviders: Array.isArray(settings.fallbackProviders) ? settings.fallbackProviders.filter(isProvider) : undefined,
+    unitSystem: UNIT_SYSTEMS.includes(settings.unitSystem as UnitSystem) ? settings.unitSystem as UnitSystem : undefined
+  };
+};
+
+const readApiKeys = (value: unknown): EncryptedApiKeys | undefined => {
+  if (!isObject(value) || !isObject(value.keys)) return undefined;
+  const { salt, iterations, keys } = value;
+  if (typeof salt !== 'string' || !Number.isFinite(iterations) || typeof keys.iv !== 'string' || typeof keys.data !== 'string') {
+    return undefined;
+  }
+  return { salt, iterations: iterations as number, keys: { iv: keys.iv, data: keys.data } };
+};
+
+// Build a backup of all profiles, analyses and settings; API keys only go in encrypted with the passphrase
+export const exportBackup = async (apiKeyPassphrase?: string): Promise<Blob> => {
+  const { apiKeys, preferredProvider, baseUrls, models, maxRetries, fallbackProviders, unitSystem } = loadSettings();
+
+  let encryptedKeys: EncryptedApiKeys | undefined;
+  if (apiKeyPassphrase !== undefined) {
+    if (apiKeyPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    const salt = randomBytes(16);
+    const key = await deriveKey(apiKeyPassphrase, salt);
+    encryptedKeys = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, keys: await encryptJson(key, apiKeys) };
+  }
+
+  const archive: BackupArchive = {
+    format: 'bloodq-backup',
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings: {
+      preferredProvider,
+      baseUrls,
+      models,
+      profiles: getHouseholdProfiles(),
+      maxRetries,
+      fallbackProviders,
+      unitSystem
+    },
+    ...(encryptedKeys && { apiKeys: encryptedKeys }),
+    analyses: await listAllAnalyses()
+  };
+
+  return new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+};
+
+// Spreadsheets run cells that start with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const toCsvCell = (value?: string | number): string => {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['Profile', 'Analysis', 'Date', 'Provider', 'Model', 'Test', 'Value', 'Unit', 'Reference Low', 'Reference High', 'Reference Range', 'Flag'];
+
+// Every extracted value of every analysis, one row each, oldest first
+export const exportBiomarkersCsv = async (): Promise<Blob> => {
+  const profileNames = new Map(getHouseholdProfiles().map(profile => [profile.id, profile.name]));
+  const records = (await listAllAnalyses()).sort((a, b) => a.createdAt - b.createdAt);
+
+  const rows = records.flatMap(record => record.result.biomarkers.map(biomarker => [
+    profileNames.get(record.profileId || DEFAULT_PROFILE_ID),
+    record.title,
+    new Date(record.createdAt).toISOString(),
+    record.result.provider,
+    record.result.model,
+    biomarker.name,
+    biomarker.value,
+    biomarker.unit,
+    biomarker.referenceRange?.low,
+    biomarker.referenceRange?.high,
+    biomarker.referenceRange?.text,
+    biomarker.flag
+  ]));
+
+  const lines = [CSV_COLUMNS, ...rows].map(row => row.map(toCsvCell).join(','));
+  // The byte order mark makes Excel read the file as UTF-8, so units like µmol/L survive
+  return new Blob([`\uFEFF${lines.join('\r\n')}\r\n`], { type: 'text/csv' });
+};
+
+// Parse and validate a backup file; profile exports are read as a backup of one profile
+export const readBackup = async (file: File): Promise<ReadBackup> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!isObject(data) || (data.format !== 'bloodq-backup' && data.format !== 'bloodq-profile')) {
+    throw new Error('This file is not a Bloodq backup');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of Bloodq');
+  }
+
+  const analyses = Array.isArray(data.analyses) ? data.analyses : [];
+  const valid = analyses.map(readRecord).filter((record): record is AnalysisRecord => record !== null);
+  const profile = data.format === 'bloodq-profile' ? readProfile(data.profile) : null;
+
+  return {
+    archive: {
+      format: 'bloodq-backup',
+      version: data.version,
+      exportedAt: Number.isFinite(data.exportedAt) ? data.exportedAt as number : Date.now(),
+      settings: profile ? { preferredProvider: loadSettings().preferredProvider, profiles: [profile] } : readSettings(data.settings),
+      apiKeys: readApiKeys(data.apiKeys),
+      analyses: valid
+    },
+    invalid: analyses.length - valid.length,
+    profileExport: profile !== null
+  };
+};
+
+// Decrypt the backup's API keys, throws for a wrong passphrase
+const decryptApiKeys = async (apiKeys: EncryptedApiKeys, passphrase: string): Promise<ApiKeys> => {
+  try {
+    const key = await deriveKey(passphrase, fromBase64(apiKeys.salt), apiKeys.iterations);
+    return readProviderStrings(await decryptJson<unknown>(key, apiKeys.keys)) || {};
+  } catch {
+    throw new Error('Wrong passphrase for the API keys in this backup');
+  }
+};
+
+// The same analysis saved twice, e.g. in two browsers, has the same id or the same time and text
+const isSameAnalysis = (a: AnalysisRecord, b: AnalysisRecord) => {
+  return a.id === b.id || (a.createdAt === b.createdAt && a.result.text === b.result.text);
+};
+
+// Merge a backup into what is stored here
+export const importBackup = async (archive: BackupArchive, options: ImportOptions): Promise<ImportSummary> => {
+  // Check the passphrase before anything is written
+  const apiKeys = archive.apiKeys && options.passphrase
+    ? await decryptApiKeys(archive.apiKeys, options.passphrase)
+    : undefined;
+
+  const settings = loadSettings();
+  const profiles = getHouseholdProfiles();
+  let profileCount = 0;
+  for (const profile of archive.settings.profiles || []) {
+    const index = profiles.findIndex(existing => existing.id === profile.id);
+    if (index < 0) {
+      profiles.push(profile);
+      profileCount++;
+    } else if (options.duplicates === 'replace') {
+      profiles[index] = profile;
+      profileCount++;
+    }
+  }
+  settings.profiles = profiles;
+  delete settings.profile;
+
+  if (options.restoreSettings) {
+    const { preferredProvider, baseUrls, models, maxRetries, fallbackProviders, unitSystem } = archive.settings;
+    const restored = { preferredProvider, baseUrls, models, maxRetries, fallbackProviders, unitSystem };
+    // Settings the archive doesn't have keep their current value
+    Object.assign(settings, Object.fromEntries(Object.entries(restored).filter(([, value]) => value !== undefined)));
+  }
+  if (apiKeys) {
+    settings.apiKeys = { ...settings.apiKeys, ...apiKeys };
+  }
+  saveSettings(settings);
+
+  // Analyses of a profile that isn't here go to the active profile, where they can be seen
+  const profileIds = new Set(profiles.map(profile => profile.id));
+  const activeProfileId = getActiveProfileId();
+  const existing = await listAllAnalyses();
+  const summary: ImportSummary = { added: 0, replaced: 0, skipped: 0, profiles: profileCount, apiKeys: Object.keys(apiKeys || {}).length };
+  const toWrite: AnalysisRecord[] = [];
+
+  for (const imported of archive.analyses) {
+    const profileId = profileIds.has(imported.profileId || DEFAULT_PROFILE_ID) ? imported.profileId : activeProfileId;
+    // Thumbnails are shown as images, only data URLs of images are kept
+    const thumbnail = typeof imported.thumbnail === 'string' && imported.thumbnail.startsWith('data:image/') ? imported.thumbnail : undefined;
+    const record = { ...imported, profileId, thumbnail };
+    const duplicate = existing.find(stored => isSameAnalysis(stored, record));
+
+    if (!duplicate) {
+      toWrite.push(record);
+      summary.added++;
+    } else if (options.duplicates === 'replace') {
+      toWrite.push({ ...record, id: duplicate.id });
+      summary.replaced++;
+    } else if (options.duplicates === 'keep') {
+      toWrite.push({ ...record, id: createId() });
+      summary.added++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  await rewriteAnalyses(toWrite);
+  return summary;
+};
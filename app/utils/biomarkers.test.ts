@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Biomarker } from '../types';
+import { ANALYTES_VERSION } from './analytes';
+import { extractBiomarkers, normalizeBiomarker, parseNumber, stripBiomarkerBlock, validateBiomarker } from './biomarkers';
+
+describe('validateBiomarker', () => {
+  it('keeps entries that match the schema, trimmed', () => {
+    expect(validateBiomarker({ name: ' Glucose ', value: ' 95 ', unit: ' mg/dL ', flag: 'normal', referenceRange: { low: 70, high: 'x' } }))
+      .toEqual({ name: 'Glucose', value: '95', unit: 'mg/dL', flag: 'normal', referenceRange: { low: 70 } });
+  });
+
+  it('drops entries without a name, value or known flag', () => {
+    expect(validateBiomarker({ name: '', value: 1, flag: 'normal' })).toBeNull();
+    expect(validateBiomarker({ name: 'Glucose', value: NaN, flag: 'normal' })).toBeNull();
+    expect(validateBiomarker({ name: 'Glucose', value: 95, flag: 'critical' })).toBeNull();
+    expect(validateBiomarker('Glucose')).toBeNull();
+  });
+});
+
+describe('extractBiomarkers', () => {
+  it('splits the markdown from the trailing JSON block', () => {
+    const output = 'Summary\n\n```json\n{"biomarkers": [{"name": "TSH", "value": 2.1, "flag": "normal"}, {"name": "Bad"}]}\n```';
+    expect(extractBiomarkers(output)).toEqual({
+      text: 'Summary',
+      biomarkers: [{ name: 'TSH', value: 2.1, flag: 'normal' }]
+    });
+  });
+
+  it('returns no values for a broken block', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(extractBiomarkers('Text\n```json\n{"biomarkers": [\n```').biomarkers).toEqual([]);
+    consoleError.mockRestore();
+  });
+
+  it('hides a block that is still streaming in', () => {
+    expect(stripBiomarkerBlock('Text\n\n```json\n{"bio')).toBe('Text');
+  });
+});
+
+describe('parseNumber', () => {
+  it('tells decimal commas from thousands separators', () => {
+    expect(parseNumber('5,4')).toBe(5.4);
+    expect(parseNumber('3,75 mmol/L')).toBe(3.75);
+    expect(parseNumber('250,000')).toBe(250000);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('-2')).toBe(-2);
+    expect(parseNumber('negative')).toBeNaN();
+  });
+});
+
+describe('normalizeBiomarker', () => {
+  const withRange = (value: number, text: string, unit = 'g/dL'): Biomarker => ({
+    name: 'Hemoglobin',
+    value,
+    unit,
+    referenceRange: { text },
+    flag: 'normal'
+  });
+
+  it('reads the bounds of a printed range', () => {
+    expect(normalizeBiomarker(withRange(14, '13.5 - 17.5 g/dL')).referenceRange).toEqual({ text: '13.5 - 17.5 g/dL', low: 13.5, high: 17.5 });
+    expect(normalizeBiomarker(withRange(14, '13,5 bis 17,5')).referenceRange).toMatchObject({ low: 13.5, high: 17.5 });
+    expect(normalizeBiomarker(withRange(150, '< 200', 'mg/dL')).referenceRange).toMatchObject({ high: 200 });
+    expect(normalizeBiomarker(withRange(50, '≥ 40', 'mg/dL')).referenceRange).toMatchObject({ low: 40 });
+  });
+
+  it('reads thousands separators in a printed range', () => {
+    const platelets: Biomarker = { name: 'Platelets', value: 250000, unit: '/µL', referenceRange: { text: '150,000 - 450,000 /µL' }, flag: 'normal' };
+    const normalized = normalizeBiomarker(platelets);
+    expect(normalized.referenceRange).toMatchObject({ low: 150000, high: 450000 });
+    expect(normalized.rangeCheck).toBeUndefined();
+    expect(normalizeBiomarker(withRange(14, '1,234.5 - 2,000')).referenceRange).toMatchObject({ low: 1234.5, high: 2000 });
+    expect(normalizeBiomarker(withRange(4, '3,75 - 5,25')).referenceRange).toMatchObject({ low: 3.75, high: 5.25 });
+  });
+
+  it('corrects a flag that disagrees with the report range', () => {
+    expect(normalizeBiomarker(withRange(12, '13.5 - 17.5')).rangeCheck).toEqual({ flag: 'low', source: 'report', range: { low: 13.5, high: 17.5 } });
+    expect(normalizeBiomarker(withRange(14, '13.5 - 17.5')).rangeCheck).toBeUndefined();
+  });
+
+  it('checks against the bundled range in the reported unit when the report has none', () => {
+    const normalized = normalizeBiomarker({ name: 'Hb', value: 120, unit: 'g/l', flag: 'normal' }, { sex: 'male' });
+    expect(normalized.unit).toBe('g/L');
+    expect(normalized.rangeCheck).toEqual({ flag: 'low', source: 'reference', range: { low: 135, high: 175 }, version: ANALYTES_VERSION });
+  });
+
+  it('does not check a printed range it could not read', () => {
+    expect(normalizeBiomarker(withRange(20, 'see age table')).rangeCheck).toBeUndefined();
+  });
+
+  it('turns plain number strings into numbers, leaving qualified values as text', () => {
+    expect(normalizeBiomarker({ name: 'CRP', value: '4,2', flag: 'normal' }).value).toBe(4.2);
+    expect(normalizeBiomarker({ name: 'CRP', value: '< 0.5', flag: 'normal' }).value).toBe('< 0.5');
+  });
+});
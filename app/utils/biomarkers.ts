@@ -0,0 +1,231 @@
+import { Biomarker, BiomarkerFlag, PatientProfile, RangeCheck, ReferenceRange } from '../types';
+import { ANALYTES_VERSION, findAnalyte, getReferenceRange } from './analytes';
+import { canonicalizeUnit } from './units';
+
+// JSON schema the model is asked to follow for the extracted values
+export const BIOMARKER_SCHEMA = {
+  type: 'object',
+  properties: {
+    biomarkers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          value: { type: ['number', 'string'] },
+          unit: { type: 'string' },
+          referenceRange: {
+            type: 'object',
+            properties: {
+              low: { type: 'number' },
+              high: { type: 'number' },
+              text: { type: 'string' }
+            }
+          },
+          flag: { type: 'string', enum: ['high', 'low', 'normal'] }
+        },
+        required: ['name', 'value', 'flag']
+      }
+    }
+  },
+  required: ['biomarkers']
+};
+
+const BIOMARKER_FLAGS: BiomarkerFlag[] = ['high', 'low', 'normal'];
+
+// Matches the last ```json fenced block in the model output
+const JSON_BLOCK_REGEX = /```json\s*([\s\S]*?)```(?![\s\S]*```json)/;
+
+const isFiniteNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isFinite(value);
+};
+
+const validateReferenceRange = (raw: unknown): ReferenceRange | undefined => {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const { low, high, text } = raw as Record<string, unknown>;
+  const range: ReferenceRange = {};
+
+  if (isFiniteNumber(low)) range.low = low;
+  if (isFiniteNumber(high)) range.high = high;
+  if (typeof text === 'string' && text.trim() !== '') range.text = text.trim();
+
+  return Object.keys(range).length > 0 ? range : undefined;
+};
+
+// Validate a single entry against BIOMARKER_SCHEMA, returns null if it doesn't match
+export const validateBiomarker = (raw: unknown): Biomarker | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const { name, value, unit, referenceRange, flag } = raw as Record<string, unknown>;
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    return null;
+  }
+  if (!isFiniteNumber(value) && (typeof value !== 'string' || value.trim() === '')) {
+    return null;
+  }
+  if (typeof flag !== 'string' || !BIOMARKER_FLAGS.includes(flag as BiomarkerFlag)) {
+    return null;
+  }
+
+  const biomarker: Biomarker = {
+    name: name.trim(),
+    value: typeof value === 'string' ? value.trim() : value,
+    flag: flag as BiomarkerFlag
+  };
+
+  if (typeof unit === 'string' && unit.trim() !== '') {
+    biomarker.unit = unit.trim();
+  }
+
+  const range = validateReferenceRange(referenceRange);
+  if (range) {
+    biomarker.referenceRange = range;
+  }
+
+  return biomarker;
+};
+
+// Validate a parsed payload, dropping entries that don't match the schema
+export const validateBiomarkers = (payload: unknown): Biomarker[] => {
+  if (!payload || typeof payload !== 'object') {
+    return [];
+  }
+
+  const list = (payload as Record<string, unknown>).biomarkers;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list
+    .map(validateBiomarker)
+    .filter((biomarker): biomarker is Biomarker => biomarker !== null);
+};
+
+// Split the raw model output into the markdown and the parsed trailing JSON block
+export const splitJsonBlock = (output: string): { text: string; json: unknown } => {
+  const match = output.match(JSON_BLOCK_REGEX);
+  if (!match) {
+    return { text: output.trim(), json: null };
+  }
+
+  let json: unknown = null;
+  try {
+    json = JSON.parse(match[1]);
+  } catch (error) {
+    console.error('Failed to parse JSON block:', error);
+  }
+
+  return {
+    text: output.replace(match[0], '').trim(),
+    json
+  };
+};
+
+// Split the raw model output into the markdown analysis and the extracted biomarkers
+export const extractBiomarkers = (output: string): { text: string; biomarkers: Biomarker[] } => {
+  const { text, json } = splitJsonBlock(output);
+  return { text, biomarkers: validateBiomarkers(json) };
+};
+
+// A plain number, with a decimal comma only when it can't be a thousands separator
+const DECIMAL_REGEX = /^\d+(?:\.\d+|,\d{1,2})?$/;
+
+// Printed ranges like "4.0 - 5.5 g/dL", "< 200", "≥ 40" or "150,000 - 450,000"
+const NUMBER = '(\\d+(?:,\\d{3})*(?:[.,]\\d+)?)';
+const BETWEEN_REGEX = new RegExp(`^${NUMBER}\\s*(?:-|–|—|to|bis|à)\\s*${NUMBER}`, 'i');
+const BELOW_REGEX = new RegExp(`^(?:<=?|≤)\\s*${NUMBER}`);
+const ABOVE_REGEX = new RegExp(`^(?:>=?|≥)\\s*${NUMBER}`);
+
+const LEADING_NUMBER_REGEX = new RegExp(`^(-?)${NUMBER}`);
+
+// The number at the start of the text, NaN if there is none.
+// A comma with one or two digits after it is a decimal comma, any other comma groups thousands.
+export const parseNumber = (text: string): number => {
+  const match = text.trim().match(LEADING_NUMBER_REGEX);
+  if (!match) return NaN;
+  const [, sign, number] = match;
+  return parseFloat(sign + (DECIMAL_REGEX.test(number) ? number.replace(',', '.') : number.replace(/,/g, '')));
+};
+
+// Fill in the bounds of a range the model only gave as text
+const readRangeText = (range?: ReferenceRange): ReferenceRange | undefined => {
+  if (!range?.text || range.low !== undefined || range.high !== undefined) {
+    return range;
+  }
+
+  const text = range.text.trim();
+  const between = text.match(BETWEEN_REGEX);
+  if (between) return { ...range, low: parseNumber(between[1]), high: parseNumber(between[2]) };
+  const below = text.match(BELOW_REGEX);
+  if (below) return { ...range, high: parseNumber(below[1]) };
+  const above = text.match(ABOVE_REGEX);
+  if (above) return { ...range, low: parseNumber(above[1]) };
+  return range;
+};
+
+const compareToRange = (value: number, range: ReferenceRange): BiomarkerFlag => {
+  if (range.low !== undefined && value < range.low) return 'low';
+  if (range.high !== undefined && value > range.high) return 'high';
+  return 'normal';
+};
+
+// The flag the value's range gives: the report's own range when it has one, the bundled one for the profile otherwise.
+// For the report's range only a flag that differs from the model's is kept; the bundled range is always kept so it can be shown.
+const checkRange = (biomarker: Biomarker, profile?: PatientProfile): RangeCheck | undefined => {
+  // Qualitative results and values like "< 0.5" aren't checked
+  if (typeof biomarker.value !== 'number') {
+    return undefined;
+  }
+
+  const { low, high, text } = biomarker.referenceRange || {};
+  if (low !== undefined || high !== undefined) {
+    const range = { ...(low !== undefined && { low }), ...(high !== undefined && { high }) };
+    const flag = compareToRange(biomarker.value, range);
+    return flag !== biomarker.flag ? { flag, source: 'report', range } : undefined;
+  }
+  // A printed range that couldn't be read, e.g. one per age group, still beats a general one
+  if (text) {
+    return undefined;
+  }
+
+  const analyte = findAnalyte(biomarker.name);
+  const range = analyte && biomarker.unit ? getReferenceRange(analyte, biomarker.unit, profile) : undefined;
+  if (!range) {
+    return undefined;
+  }
+  return { flag: compareToRange(biomarker.value, range), source: 'reference', range, version: ANALYTES_VERSION };
+};
+
+// Tidy up an extracted value: canonical unit spelling, numbers as numbers, range bounds read from the printed range,
+// and a check of the model's flag against the range
+export const normalizeBiomarker = (biomarker: Biomarker, profile?: PatientProfile): Biomarker => {
+  const normalized: Biomarker = { ...biomarker };
+  if (typeof biomarker.value === 'string' && DECIMAL_REGEX.test(biomarker.value)) {
+    normalized.value = parseNumber(biomarker.value);
+  }
+  if (biomarker.unit) {
+    normalized.unit = canonicalizeUnit(biomarker.unit);
+  }
+  const referenceRange = readRangeText(biomarker.referenceRange);
+  if (referenceRange) {
+    normalized.referenceRange = referenceRange;
+  }
+
+  const rangeCheck = checkRange(normalized, profile);
+  if (rangeCheck) {
+    normalized.rangeCheck = rangeCheck;
+  }
+  return normalized;
+};
+
+// Hide the (possibly incomplete) JSON block while the output is still streaming in
+export const stripBiomarkerBlock = (partialOutput: string): string => {
+  const blockStart = partialOutput.lastIndexOf('```json');
+  return blockStart === -1 ? partialOutput : partialOutput.slice(0, blockStart).trimEnd();
+};
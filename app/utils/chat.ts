@@ -0,0 +1,39 @@
+import { AnalysisResult, ChatMessage } from '../types';
+
+// Keeps follow-up requests to a reasonable size
+export const MAX_CHAT_MESSAGES = 40;
+
+// Check a follow-up conversation: it starts with the prior answer, alternates and ends with a question
+export const validateChatMessages = (messages: unknown): ChatMessage[] => {
+  if (!Array.isArray(messages) || messages.length < 2) {
+    throw new Error('A follow-up needs the prior answer and a question');
+  }
+  if (messages.length > MAX_CHAT_MESSAGES) {
+    throw new Error(`A conversation can have at most ${MAX_CHAT_MESSAGES} messages, start a new one`);
+  }
+  if (messages.length % 2 !== 0) {
+    throw new Error('A follow-up must end with a question');
+  }
+
+  return messages.map((message: ChatMessage, index) => {
+    const expectedRole = index % 2 === 0 ? 'assistant' : 'user';
+    if (message?.role !== expectedRole) {
+      throw new Error('Follow-up messages must alternate between the answer and your questions');
+    }
+    if (typeof message.content !== 'string' || message.content.trim() === '') {
+      throw new Error('Follow-up messages cannot be empty');
+    }
+    return { role: message.role, content: message.content };
+  });
+};
+
+// The answer as the model originally wrote it, with the extracted values back in their JSON block
+export const formatPriorAnswer = (result: AnalysisResult): string => {
+  const values = result.changes
+    ? { changes: result.changes }
+    : result.biomarkers.length > 0 ? { biomarkers: result.biomarkers } : null;
+
+  return values
+    ? `${result.text}\n\n\`\`\`json\n${JSON.stringify(values)}\n\`\`\``
+    : result.text;
+};
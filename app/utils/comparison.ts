@@ -0,0 +1,90 @@
+import { BiomarkerChange, ChangeAssessment, ChangeDirection, ComparisonReport } from '../types';
+import { splitJsonBlock } from './biomarkers';
+
+// JSON schema the model is asked to follow for the values that changed between two reports
+export const COMPARISON_SCHEMA = {
+  type: 'object',
+  properties: {
+    changes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          unit: { type: 'string' },
+          before: { type: ['number', 'string'] },
+          after: { type: ['number', 'string'] },
+          direction: { type: 'string', enum: ['up', 'down', 'same'] },
+          assessment: { type: 'string', enum: ['improved', 'worsened', 'unchanged', 'unclear'] }
+        },
+        required: ['name', 'before', 'after', 'direction', 'assessment']
+      }
+    }
+  },
+  required: ['changes']
+};
+
+const DIRECTIONS: ChangeDirection[] = ['up', 'down', 'same'];
+const ASSESSMENTS: ChangeAssessment[] = ['improved', 'worsened', 'unchanged', 'unclear'];
+
+const isValue = (value: unknown): value is number | string => {
+  return (typeof value === 'number' && Number.isFinite(value))
+    || (typeof value === 'string' && value.trim() !== '');
+};
+
+// Validate a single entry against COMPARISON_SCHEMA, returns null if it doesn't match
+export const validateChange = (raw: unknown): BiomarkerChange | null => {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+
+  const { name, unit, before, after, direction, assessment } = raw as Record<string, unknown>;
+
+  if (typeof name !== 'string' || name.trim() === '') return null;
+  if (!isValue(before) || !isValue(after)) return null;
+  if (!DIRECTIONS.includes(direction as ChangeDirection)) return null;
+
+  const change: BiomarkerChange = {
+    name: name.trim(),
+    before,
+    after,
+    direction: direction as ChangeDirection,
+    assessment: ASSESSMENTS.includes(assessment as ChangeAssessment) ? assessment as ChangeAssessment : 'unclear'
+  };
+
+  if (typeof unit === 'string' && unit.trim() !== '') {
+    change.unit = unit.trim();
+  }
+
+  return change;
+};
+
+// Split the raw model output into the narrative and the list of changed values
+export const extractChanges = (output: string): { text: string; changes: BiomarkerChange[] } => {
+  const { text, json } = splitJsonBlock(output);
+  const list = json && typeof json === 'object' ? (json as Record<string, unknown>).changes : null;
+
+  return {
+    text,
+    changes: Array.isArray(list)
+      ? list.map(validateChange).filter((change): change is BiomarkerChange => change !== null)
+      : []
+  };
+};
+
+// Check that a comparison has two reports that each carry something to compare
+export const validateComparisonReports = (reports: unknown): ComparisonReport[] => {
+  if (!Array.isArray(reports) || reports.length !== 2) {
+    throw new Error('A comparison needs exactly two reports');
+  }
+
+  reports.forEach((report: ComparisonReport, index) => {
+    const hasImages = Array.isArray(report?.images) && report.images.length > 0;
+    const hasValues = Array.isArray(report?.biomarkers) && report.biomarkers.length > 0;
+    if (!hasImages && !hasValues) {
+      throw new Error(`Report ${index + 1} has no images or extracted values`);
+    }
+  });
+
+  return reports as ComparisonReport[];
+};
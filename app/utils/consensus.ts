@@ -0,0 +1,60 @@
+import { Biomarker, ConsensusRow, LLMProvider } from '../types';
+import { findAnalyte, getAnalyteKey } from './analytes';
+import { toNumber } from './trends';
+import { canonicalizeUnit, convertUnit } from './units';
+
+// Readings this close to each other, relative to their size, count as the same value
+const VALUE_TOLERANCE = 0.01;
+
+// A reading in the row's unit, or its normalized text when it can't be converted
+const normalizeReading = (biomarker: Biomarker, unit: string): number | string => {
+  const value = toNumber(biomarker.value);
+  if (value !== null) {
+    const converted = convertUnit(value, biomarker.unit || unit, unit, findAnalyte(biomarker.name)?.molarMass);
+    if (converted !== null) return converted;
+  }
+  return String(biomarker.value).trim().toLowerCase();
+};
+
+const sameReading = (a: number | string, b: number | string): boolean => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= VALUE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+  }
+  return a === b;
+};
+
+// Line up every biomarker across the providers' results and mark where they disagree
+export const reconcileResults = (results: { provider: LLMProvider; biomarkers: Biomarker[] }[]): ConsensusRow[] => {
+  const rows = new Map<string, { name: string; readings: Partial<Record<LLMProvider, Biomarker>> }>();
+
+  for (const result of results) {
+    for (const biomarker of result.biomarkers) {
+      const key = getAnalyteKey(biomarker.name);
+      const row = rows.get(key) || { name: biomarker.name, readings: {} };
+      // A repeated name in one answer keeps its first reading
+      if (!row.readings[result.provider]) {
+        row.readings[result.provider] = biomarker;
+      }
+      rows.set(key, row);
+    }
+  }
+
+  return [...rows.values()].map(({ name, readings }) => {
+    const present = Object.values(readings) as Biomarker[];
+    const unit = canonicalizeUnit(present.find(biomarker => biomarker.unit)?.unit);
+    const values = present.map(biomarker => normalizeReading(biomarker, unit));
+
+    return {
+      name,
+      unit,
+      readings,
+      missing: results.map(result => result.provider).filter(provider => !readings[provider]),
+      valuesAgree: values.every(value => sameReading(value, values[0])),
+      flagsAgree: present.every(biomarker => biomarker.flag === present[0].flag)
+    };
+  });
+};
+
+export const isDisagreement = (row: ConsensusRow): boolean => {
+  return !row.valuesAgree || !row.flagsAgree || row.missing.length > 0;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Biomarker, BiomarkerChange } from '../types';
+import { convertBiomarker, convertChange } from './conversion';
+
+const glucose: Biomarker = {
+  name: 'Glucose',
+  value: 100,
+  unit: 'mg/dL',
+  referenceRange: { low: 70, high: 99, text: '70 - 99 mg/dL' },
+  flag: 'high'
+};
+
+describe('convertBiomarker', () => {
+  it('converts the value and range bounds into the system unit', () => {
+    expect(convertBiomarker(glucose, 'si')).toEqual({
+      ...glucose,
+      value: 5.55,
+      unit: 'mmol/L',
+      referenceRange: { low: 3.89, high: 5.5 }
+    });
+  });
+
+  it('returns the same object when the value is already in the system unit', () => {
+    expect(convertBiomarker(glucose, 'conventional')).toBe(glucose);
+    expect(convertBiomarker(glucose, undefined)).toBe(glucose);
+  });
+
+  it('keeps qualifiers and reads decimal commas', () => {
+    expect(convertBiomarker({ ...glucose, value: '< 50' }, 'si').value).toBe('< 2.78');
+    expect(convertBiomarker({ ...glucose, value: '5,5', unit: 'mmol/L' }, 'conventional').value).toBe(99.1);
+  });
+
+  it('leaves text values, unknown tests and unknown units as reported', () => {
+    const negative = { ...glucose, value: 'negative' };
+    expect(convertBiomarker(negative, 'si')).toBe(negative);
+    const unknown: Biomarker = { name: 'Made-up marker', value: 1, unit: 'mg/dL', flag: 'normal' };
+    expect(convertBiomarker(unknown, 'si')).toBe(unknown);
+    const oddUnit = { ...glucose, unit: 'mg%' };
+    expect(convertBiomarker(oddUnit, 'si')).toBe(oddUnit);
+  });
+
+  it('labels a printed range it could not convert with its unit', () => {
+    const converted = convertBiomarker({ ...glucose, referenceRange: { text: 'see note' } }, 'si');
+    expect(converted.referenceRange).toEqual({ text: 'see note (mg/dL)' });
+  });
+});
+
+describe('convertChange', () => {
+  it('converts both sides of a change', () => {
+    const change: BiomarkerChange = { name: 'Glucose', before: 90, after: 126, unit: 'mg/dL', direction: 'up', assessment: 'worsened' };
+    expect(convertChange(change, 'si')).toMatchObject({ before: 5, after: 6.99, unit: 'mmol/L' });
+  });
+});
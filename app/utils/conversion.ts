@@ -0,0 +1,74 @@
+// Shows values in SI or conventional units, whatever unit the lab reported them in.
+// Only tests in the analyte knowledge base with different units per system are converted; everything else is left as reported.
+
+import { Biomarker, BiomarkerChange, ReferenceRange, UnitSystem } from '../types';
+import { Analyte, findAnalyte } from './analytes';
+import { canonicalizeUnit, convertUnit, roundConverted } from './units';
+
+// A number, optionally after "<" or ">", e.g. "5.4", "5,4" or "< 0.5"
+const VALUE_REGEX = /^([<>≤≥]=?)?\s*(\d+(?:\.\d+|,\d{1,2})?)$/;
+
+// The analyte and the unit a test is shown in for a system, undefined when it stays as reported
+const findTarget = (name: string, unit: string | undefined, system: UnitSystem | undefined): { analyte: Analyte; unit: string } | undefined => {
+  if (!system || !unit) return undefined;
+  const analyte = findAnalyte(name);
+  const target = analyte?.units?.[system];
+  if (!analyte || !target || canonicalizeUnit(unit) === target) return undefined;
+  return { analyte, unit: target };
+};
+
+// A value in another unit, keeping a "<" or ">" in front; null for text and units that can't be converted
+const convertValue = (value: number | string, from: string, to: string, molarMass?: number): number | string | null => {
+  if (typeof value === 'number') {
+    const converted = convertUnit(value, from, to, molarMass);
+    return converted !== null ? roundConverted(converted) : null;
+  }
+
+  const match = value.trim().match(VALUE_REGEX);
+  const converted = match ? convertUnit(parseFloat(match[2].replace(',', '.')), from, to, molarMass) : null;
+  if (!match || converted === null) return null;
+  return match[1] ? `${match[1]} ${roundConverted(converted)}` : roundConverted(converted);
+};
+
+// The printed text of a converted range is in the old unit, so it's only kept when there are no bounds to show
+export const convertRange = (range: ReferenceRange | undefined, from: string, to: string, molarMass?: number): ReferenceRange | undefined => {
+  if (!range) return undefined;
+
+  const low = range.low !== undefined ? convertValue(range.low, from, to, molarMass) : null;
+  const high = range.high !== undefined ? convertValue(range.high, from, to, molarMass) : null;
+  const converted: ReferenceRange = {};
+  if (typeof low === 'number') converted.low = low;
+  if (typeof high === 'number') converted.high = high;
+  if (Object.keys(converted).length === 0 && range.text) converted.text = `${range.text} (${from})`;
+
+  return Object.keys(converted).length > 0 ? converted : undefined;
+};
+
+// A biomarker in the unit system's unit, the same object when it's already in it or can't be converted
+export const convertBiomarker = (biomarker: Biomarker, system?: UnitSystem): Biomarker => {
+  const target = findTarget(biomarker.name, biomarker.unit, system);
+  if (!target || !biomarker.unit) return biomarker;
+
+  const { molarMass } = target.analyte;
+  const value = convertValue(biomarker.value, biomarker.unit, target.unit, molarMass);
+  if (value === null) return biomarker;
+
+  const converted: Biomarker = { ...biomarker, value, unit: target.unit };
+  const referenceRange = convertRange(biomarker.referenceRange, biomarker.unit, target.unit, molarMass);
+  if (referenceRange) converted.referenceRange = referenceRange;
+  else delete converted.referenceRange;
+  const checkRange = biomarker.rangeCheck && convertRange(biomarker.rangeCheck.range, biomarker.unit, target.unit, molarMass);
+  if (biomarker.rangeCheck && checkRange) converted.rangeCheck = { ...biomarker.rangeCheck, range: checkRange };
+  return converted;
+};
+
+// A change between two reports in the unit system's unit, the same object when it can't be converted
+export const convertChange = (change: BiomarkerChange, system?: UnitSystem): BiomarkerChange => {
+  const target = findTarget(change.name, change.unit, system);
+  if (!target || !change.unit) return change;
+
+  const before = convertValue(change.before, change.unit, target.unit, target.analyte.molarMass);
+  const after = convertValue(change.after, change.unit, target.unit, target.analyte.molarMass);
+  if (before === null || after === null) return change;
+  return { ...change, before, after, unit: target.unit };
+};
@@ -0,0 +1,66 @@
+'use client';
+
+import { AnalysisErrorCode, LLMProvider } from '../types';
+import { getProvider } from '../providers';
+import { AnalysisError } from '../providers/errors';
+
+export interface ErrorDescription {
+  message: string;
+  action?: 'settings'; // the user can fix it in the settings
+}
+
+// What to tell the user for each kind of failure, and whether settings can fix it
+const DESCRIPTIONS: Record<AnalysisErrorCode, { describe: (label: string, provider: LLMProvider) => string; settings?: boolean }> = {
+  invalid_key: {
+    describe: (label, provider) => getProvider(provider).capabilities.customBaseUrl
+      ? `${label} rejected the request. Check its server URL and API key in settings.`
+      : `Your ${label} API key is invalid. Open settings to check or replace it.`,
+    settings: true
+  },
+  quota_exhausted: {
+    describe: label => `Your ${label} account is out of credit or over its usage limit. Top it up, or choose another provider in settings.`,
+    settings: true
+  },
+  rate_limited: {
+    describe: label => `${label} is getting too many requests right now. Wait a minute and try again.`
+  },
+  content_refused: {
+    describe: label => `${label} declined to analyze this report. Try another provider, or remove anything besides the test results.`,
+    settings: true
+  },
+  image_unreadable: {
+    describe: label => `${label} couldn't read the image. Try a sharper photo, a smaller file, or the PDF of the report.`
+  },
+  timeout: {
+    describe: label => `${label} took too long to answer. Try again, or with fewer pages.`
+  },
+  upstream_outage: {
+    describe: label => `${label} is unavailable right now. Try again later, or add a fallback provider in settings.`,
+    settings: true
+  },
+  invalid_request: {
+    describe: label => `${label} couldn't process the request.`
+  },
+  unknown: {
+    describe: label => `Something went wrong with ${label}.`
+  }
+};
+
+// A friendly message for a failed analysis, with the provider's own words as detail
+export const describeError = (error: unknown): ErrorDescription => {
+  if (!(error instanceof AnalysisError)) {
+    return { message: error instanceof Error ? error.message : 'An unknown error occurred' };
+  }
+
+  // Failures the server reports itself, like its own quota, already explain themselves
+  if (!error.provider) {
+    return { message: error.message, ...(error.code === 'quota_exhausted' && { action: 'settings' }) };
+  }
+
+  const { describe, settings } = DESCRIPTIONS[error.code];
+  const message = describe(getProvider(error.provider).label, error.provider);
+  return {
+    message: `${message} (${error.message})`,
+    ...(settings && { action: 'settings' })
+  };
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult } from '../types';
+import { parseFhirBundle, toFhirBundle } from './fhir';
+
+const result: AnalysisResult = {
+  mode: 'single',
+  text: 'All good apart from glucose.',
+  biomarkers: [
+    { name: 'Glucose', value: 105, unit: 'mg/dL', referenceRange: { low: 70, high: 99 }, flag: 'high' },
+    { name: 'TSH', value: 2.1, unit: 'mIU/L', referenceRange: { text: '0.4 - 4.0' }, flag: 'normal' },
+    { name: 'CRP', value: '< 0.5', unit: 'mg/L', flag: 'normal' },
+    { name: 'Urine protein', value: 'negative', flag: 'normal' }
+  ],
+  provider: 'claude',
+  model: 'claude-sonnet-4',
+  timestamp: Date.UTC(2026, 9, 1, 8, 30)
+};
+
+describe('FHIR bundles', () => {
+  it('writes LOINC codes, UCUM units, comparators and interpretations', () => {
+    const [report, ...observations] = (toFhirBundle(result, 'Checkup').entry || []).map(entry => entry.resource);
+
+    expect(report).toMatchObject({ resourceType: 'DiagnosticReport', code: { text: 'Checkup' } });
+    expect(observations).toHaveLength(4);
+    expect(observations[0]).toMatchObject({
+      code: { coding: [{ system: 'http://loinc.org', code: '2345-7' }], text: 'Glucose' },
+      interpretation: [{ coding: [{ code: 'H' }] }]
+    });
+    expect(observations[1]).toMatchObject({ valueQuantity: { value: 2.1, system: 'http://unitsofmeasure.org', code: 'm[IU]/L' } });
+    expect(observations[2]).toMatchObject({ valueQuantity: { value: 0.5, comparator: '<' } });
+    expect(observations[3]).toMatchObject({ valueString: 'negative' });
+  });
+
+  it('reads thousands separators in text values', () => {
+    const platelets: AnalysisResult = { ...result, biomarkers: [{ name: 'Platelets', value: '250,000', unit: '/µL', flag: 'normal' }] };
+    const [, observation] = (toFhirBundle(platelets, 'Checkup').entry || []).map(entry => entry.resource);
+    expect(observation).toMatchObject({ valueQuantity: { value: 250000 } });
+  });
+
+  it('imports its own export unchanged, marked as imported', () => {
+    expect(parseFhirBundle(JSON.parse(JSON.stringify(toFhirBundle(result, 'Checkup')))))
+      .toEqual([{ result: { ...result, importedFrom: 'FHIR bundle' }, title: 'Checkup' }]);
+  });
+
+  it('reads Observations without a report as one result', () => {
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      entry: [{
+        resource: {
+          resourceType: 'Observation',
+          id: 'a',
+          code: { coding: [{ system: 'http://loinc.org', code: '718-7', display: 'Hemoglobin' }] },
+          valueQuantity: { value: 135, code: 'g/L' },
+          interpretation: [{ coding: [{ code: 'N' }] }]
+        }
+      }]
+    };
+    const [{ result: imported }] = parseFhirBundle(bundle);
+    expect(imported.biomarkers).toEqual([{ name: 'Hemoglobin', value: 135, unit: 'g/L', flag: 'normal' }]);
+    expect(imported.provider).toBeUndefined();
+    expect(imported.importedFrom).toBe('FHIR bundle');
+  });
+
+  it('drops values that do not pass validation', () => {
+    let id = 0;
+    const observation = (fields: Record<string, unknown>) => ({ resource: { resourceType: 'Observation', id: String(++id), ...fields } });
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        observation({ code: { text: ' Glucose ' }, valueQuantity: { value: 95, unit: 'mg/dL' }, referenceRange: [{ low: { value: '70' }, high: { value: 99 } }] }),
+        observation({ code: { text: 'No value' } }),
+        observation({ code: { text: 'Empty' }, valueString: '   ' }),
+        observation({ code: { text: 'Object' }, valueQuantity: { value: { $gt: 1 } } }),
+        observation({ code: { text: 42 }, valueQuantity: { value: 1 } }),
+        observation({ code: { coding: 'not a list' }, valueQuantity: { value: 1 } })
+      ]
+    };
+    expect(parseFhirBundle(bundle)[0].result.biomarkers).toEqual([{ name: 'Glucose', value: 95, unit: 'mg/dL', referenceRange: { high: 99 }, flag: 'normal' }]);
+  });
+
+  it('skips malformed entries and fields instead of storing or throwing on them', () => {
+    const bundle = {
+      resourceType: 'Bundle',
+      type: 'collection',
+      entry: [
+        null,
+        5,
+        { resource: null },
+        { fullUrl: 7, resource: { resourceType: 'Observation', id: 'x', code: { text: 'TSH' }, valueQuantity: { value: 2.1, comparator: 'x' } } },
+        { resource: { resourceType: 'DiagnosticReport', result: 'Observation/x', extension: 'claude', conclusion: { text: 'no' }, code: { text: ['Checkup'] } } },
+        {
+          resource: {
+            resourceType: 'DiagnosticReport',
+            result: [null, { reference: 5 }, { reference: 'Observation/x' }],
+            extension: [null, { url: 'urn:bloodq:provider', valueString: 42 }],
+            conclusion: 12,
+            code: { text: { nested: true } },
+            effectiveDateTime: 20261001,
+            interpretation: 'H'
+          }
+        }
+      ]
+    };
+
+    const [{ result: imported, title }] = parseFhirBundle(bundle);
+    expect(imported).toMatchObject({ text: '', biomarkers: [{ name: 'TSH', value: 2.1, flag: 'normal' }] });
+    expect(imported.provider).toBeUndefined();
+    expect(title).toBeUndefined();
+  });
+
+  it('rejects files that are not bundles or have no values', () => {
+    expect(() => parseFhirBundle({ resourceType: 'Patient' })).toThrow('not a FHIR Bundle');
+    expect(() => parseFhirBundle({ resourceType: 'Bundle', entry: [] })).toThrow('no lab observations');
+  });
+});
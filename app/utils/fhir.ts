@@ -0,0 +1,323 @@
+'use client';
+
+import { AnalysisResult, Biomarker, BiomarkerFlag, ReferenceRange } from '../types';
+import { isProvider } from '../providers';
+import { validateBiomarker } from './biomarkers';
+import { saveAnalysis } from './history';
+import { findLoincCode, LOINC_SYSTEM } from './loinc';
+import { toNumber } from './trends';
+import { fromUcum, toUcum } from './units';
+
+// FHIR R4 exchange of extracted values: one DiagnosticReport and its Observations in a collection Bundle.
+// Only the parts of the resources Bloodq writes or reads are typed here.
+
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const REPORT_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+// LOINC's generic "Laboratory report" document code
+const LAB_REPORT_CODE = '11502-2';
+// Extensions that keep which provider and model read the values, so our own exports import back unchanged
+const PROVIDER_EXTENSION = 'urn:bloodq:provider';
+const MODEL_EXTENSION = 'urn:bloodq:model';
+const IMPORTED_FROM = 'FHIR bundle';
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Quantity {
+  value?: number;
+  comparator?: '<' | '<=' | '>=' | '>';
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+interface Extension {
+  url: string;
+  valueString?: string;
+}
+
+interface Observation {
+  resourceType: 'Observation';
+  id?: string;
+  status: string;
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  effectiveDateTime?: string;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  valueCodeableConcept?: CodeableConcept;
+  interpretation?: CodeableConcept[];
+  referenceRange?: { low?: Quantity; high?: Quantity; text?: string }[];
+}
+
+interface DiagnosticReport {
+  resourceType: 'DiagnosticReport';
+  id?: string;
+  extension?: Extension[];
+  status: string;
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  effectiveDateTime?: string;
+  issued?: string;
+  result?: { reference?: string }[];
+  conclusion?: string;
+}
+
+interface BundleEntry {
+  fullUrl?: string;
+  resource?: { resourceType?: string; id?: string };
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: string;
+  timestamp?: string;
+  entry?: BundleEntry[];
+}
+
+const INTERPRETATIONS: Record<BiomarkerFlag, Coding> = {
+  high: { system: INTERPRETATION_SYSTEM, code: 'H', display: 'High' },
+  low: { system: INTERPRETATION_SYSTEM, code: 'L', display: 'Low' },
+  normal: { system: INTERPRETATION_SYSTEM, code: 'N', display: 'Normal' }
+};
+
+const COMPARATORS: Record<string, Quantity['comparator']> = {
+  '<': '<',
+  '≤': '<=',
+  '<=': '<=',
+  '>': '>',
+  '≥': '>=',
+  '>=': '>='
+};
+
+const createUuid = () => `urn:uuid:${crypto.randomUUID()}`;
+
+const toQuantity = (value: number, unit?: string): Quantity => {
+  const code = toUcum(unit);
+  return {
+    value,
+    ...(unit && { unit }),
+    ...(code && { system: UCUM_SYSTEM, code })
+  };
+};
+
+const toReferenceRange = (range: ReferenceRange | undefined, unit?: string): Observation['referenceRange'] => {
+  if (!range || (range.low === undefined && range.high === undefined && !range.text)) {
+    return undefined;
+  }
+  return [{
+    ...(range.low !== undefined && { low: toQuantity(range.low, unit) }),
+    ...(range.high !== undefined && { high: toQuantity(range.high, unit) }),
+    ...(range.text && { text: range.text })
+  }];
+};
+
+// Numbers become a Quantity, keeping a leading "<" or ">" as its comparator; anything else stays text
+const toObservationValue = (biomarker: Biomarker): Pick<Observation, 'valueQuantity' | 'valueString'> => {
+  const value = toNumber(biomarker.value);
+  if (value === null) {
+    return { valueString: String(biomarker.value) };
+  }
+  const comparator = typeof biomarker.value === 'string' ? COMPARATORS[biomarker.value.trim().match(/^[<>≤≥]=?/)?.[0] || ''] : undefined;
+  return { valueQuantity: { ...toQuantity(value, biomarker.unit), ...(comparator && { comparator }) } };
+};
+
+const toObservation = (biomarker: Biomarker, effectiveDateTime: string): Observation => {
+  const loinc = findLoincCode(biomarker.name, biomarker.unit);
+  return {
+    resourceType: 'Observation',
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'laboratory', display: 'Laboratory' }] }],
+    code: {
+      ...(loinc && { coding: [{ system: LOINC_SYSTEM, ...loinc }] }),
+      text: biomarker.name
+    },
+    effectiveDateTime,
+    ...toObservationValue(biomarker),
+    interpretation: [{ coding: [INTERPRETATIONS[biomarker.flag]] }],
+    referenceRange: toReferenceRange(biomarker.referenceRange, biomarker.unit)
+  };
+};
+
+// A result's values as a FHIR R4 collection Bundle, the DiagnosticReport first and its Observations after it
+export const toFhirBundle = (result: AnalysisResult, title?: string): FhirBundle => {
+  const effectiveDateTime = new Date(result.timestamp).toISOString();
+  const observations = result.biomarkers.map(biomarker => ({
+    fullUrl: createUuid(),
+    resource: toObservation(biomarker, effectiveDateTime)
+  }));
+
+  const report: DiagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    ...((result.provider || result.model) && {
+      extension: [
+        ...(result.provider ? [{ url: PROVIDER_EXTENSION, valueString: result.provider }] : []),
+        ...(result.model ? [{ url: MODEL_EXTENSION, valueString: result.model }] : [])
+      ]
+    }),
+    status: 'final',
+    category: [{ coding: [{ system: REPORT_CATEGORY_SYSTEM, code: 'LAB', display: 'Laboratory' }] }],
+    code: {
+      coding: [{ system: LOINC_SYSTEM, code: LAB_REPORT_CODE, display: 'Laboratory report' }],
+      ...(title && { text: title })
+    },
+    effectiveDateTime,
+    issued: effectiveDateTime,
+    result: observations.map(({ fullUrl }) => ({ reference: fullUrl })),
+    conclusion: result.text
+  };
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: [{ fullUrl: createUuid(), resource: report }, ...observations]
+  };
+};
+
+// Files from other tools can hold anything, so every field is type-checked before it's read
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readString = (value: unknown): string | undefined => {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+};
+
+const readArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const readFlag = (observation: Record<string, unknown>): BiomarkerFlag => {
+  const codes = readArray(observation.interpretation)
+    .flatMap(concept => isObject(concept) ? readArray(concept.coding) : [])
+    .map(coding => isObject(coding) ? coding.code : undefined);
+  // HH/LL are critical values, HU/LU significantly out of range
+  if (codes.some(code => code === 'H' || code === 'HH' || code === 'HU')) return 'high';
+  if (codes.some(code => code === 'L' || code === 'LL' || code === 'LU')) return 'low';
+  return 'normal';
+};
+
+const readUnit = (quantity: Record<string, unknown>) => {
+  const code = readString(quantity.code);
+  return readString(quantity.unit) || (code ? fromUcum(code) : undefined);
+};
+
+// A Quantity's value, with its comparator in front as Bloodq writes it, e.g. "< 0.5"
+const readQuantityValue = (quantity: Record<string, unknown>) => {
+  const comparator = Object.values(COMPARATORS).find(known => known === quantity.comparator);
+  return comparator && typeof quantity.value === 'number' ? `${comparator} ${quantity.value}` : quantity.value;
+};
+
+// Each value goes through the same checks as a model's output
+const readBiomarker = (observation: Record<string, unknown>): Biomarker | null => {
+  const code = isObject(observation.code) ? observation.code : {};
+  const quantity = isObject(observation.valueQuantity) ? observation.valueQuantity : undefined;
+  const concept = isObject(observation.valueCodeableConcept) ? observation.valueCodeableConcept : {};
+  const [range] = readArray(observation.referenceRange).filter(isObject);
+
+  return validateBiomarker({
+    name: readString(code.text) || readArray(code.coding).map(coding => isObject(coding) ? readString(coding.display) : undefined).find(Boolean),
+    value: quantity?.value !== undefined ? readQuantityValue(quantity) : observation.valueString ?? concept.text,
+    unit: quantity && readUnit(quantity),
+    referenceRange: range && {
+      low: isObject(range.low) ? range.low.value : undefined,
+      high: isObject(range.high) ? range.high.value : undefined,
+      text: range.text
+    },
+    flag: readFlag(observation)
+  });
+};
+
+const readExtension = (report: Record<string, unknown> | undefined, url: string) => {
+  const extension = readArray(report?.extension).find(item => isObject(item) && item.url === url);
+  return isObject(extension) ? readString(extension.valueString) : undefined;
+};
+
+const readDate = (...values: unknown[]): number => {
+  const date = Date.parse(values.map(readString).find(Boolean) || '');
+  return Number.isNaN(date) ? Date.now() : date;
+};
+
+const toResult = (observations: Record<string, unknown>[], report?: Record<string, unknown>): { result: AnalysisResult; title?: string } => {
+  const provider = readExtension(report, PROVIDER_EXTENSION);
+  const model = readExtension(report, MODEL_EXTENSION);
+
+  return {
+    result: {
+      mode: 'single',
+      text: typeof report?.conclusion === 'string' ? report.conclusion : '',
+      biomarkers: observations.map(readBiomarker).filter((biomarker): biomarker is Biomarker => biomarker !== null),
+      ...(isProvider(provider) && { provider }),
+      ...(model && { model }),
+      importedFrom: IMPORTED_FROM,
+      timestamp: readDate(report?.effectiveDateTime, report?.issued, observations[0]?.effectiveDateTime)
+    },
+    title: isObject(report?.code) ? readString(report.code.text) : undefined
+  };
+};
+
+// Every DiagnosticReport in a Bundle as a result, with the Observations it references.
+// A Bundle of Observations without a report becomes a single result. Entries that aren't resources are skipped.
+export const parseFhirBundle = (data: unknown): { result: AnalysisResult; title?: string }[] => {
+  if (!isObject(data) || data.resourceType !== 'Bundle' || !Array.isArray(data.entry)) {
+    throw new Error('This file is not a FHIR Bundle');
+  }
+
+  // Observations can be referenced by their fullUrl or as Observation/<id>
+  const observations = new Map<string, Record<string, unknown>>();
+  const reports: Record<string, unknown>[] = [];
+  for (const entry of data.entry as unknown[]) {
+    if (!isObject(entry) || !isObject(entry.resource)) continue;
+    const { resource } = entry;
+    if (resource.resourceType === 'Observation') {
+      const fullUrl = readString(entry.fullUrl);
+      const id = readString(resource.id);
+      if (fullUrl) observations.set(fullUrl, resource);
+      if (id) observations.set(`Observation/${id}`, resource);
+    } else if (resource.resourceType === 'DiagnosticReport') {
+      reports.push(resource);
+    }
+  }
+
+  const results = reports.length > 0
+    ? reports.map(report => toResult(
+      readArray(report.result).flatMap(item => {
+        const reference = isObject(item) ? readString(item.reference) : undefined;
+        const observation = reference ? observations.get(reference) : undefined;
+        return observation ? [observation] : [];
+      }),
+      report
+    ))
+    : [toResult([...new Set(observations.values())])];
+
+  const withValues = results.filter(({ result }) => result.biomarkers.length > 0);
+  if (withValues.length === 0) {
+    throw new Error('The bundle has no lab observations with values');
+  }
+  return withValues;
+};
+
+// Read a FHIR Bundle file and add its reports to the active profile's history, resolves with how many were added
+export const importFhirBundle = async (file: File): Promise<number> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const results = parseFhirBundle(data);
+  for (const { result, title } of results) {
+    await saveAnalysis(result, { title });
+  }
+  return results.length;
+};
@@ -0,0 +1,185 @@
+'use client';
+
+import { AnalysisRecord, AnalysisResult, EncryptedPayload } from '../types';
+import { DEFAULT_PROFILE_ID, getActiveProfileId } from './settings';
+import { decryptJson, encryptJson } from './crypto';
+import { getVaultKey, isVaultEnabled } from './vault';
+
+const DB_NAME = 'bloodq';
+const DB_VERSION = 1;
+const ANALYSES_STORE = 'analyses';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Open (and create on first use) the history database
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ANALYSES_STORE)) {
+          const store = db.createObjectStore(ANALYSES_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return databasePromise;
+};
+
+// Run a single request against the analyses store
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANALYSES_STORE, mode);
+    const request = run(transaction.objectStore(ANALYSES_STORE));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// With passphrase encryption on, only what's needed to find a record stays readable
+interface SealedRecord {
+  id: string;
+  createdAt: number;
+  profileId?: string;
+  sealed: EncryptedPayload;
+}
+
+type StoredRecord = AnalysisRecord | SealedRecord;
+
+const seal = async (record: AnalysisRecord): Promise<StoredRecord> => {
+  if (!isVaultEnabled()) {
+    return record;
+  }
+  const { id, createdAt, profileId } = record;
+  return { id, createdAt, profileId, sealed: await encryptJson(getVaultKey(), record) };
+};
+
+const unseal = async (stored: StoredRecord): Promise<AnalysisRecord> => {
+  return 'sealed' in stored ? decryptJson<AnalysisRecord>(getVaultKey(), stored.sealed) : stored;
+};
+
+const getRecordProfileId = (record: StoredRecord) => record.profileId || DEFAULT_PROFILE_ID;
+
+const createId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+// Default title for a new analysis, e.g. "Blood test - 3/14/2025"
+export const getDefaultTitle = (timestamp: number) => {
+  return `Blood test - ${new Date(timestamp).toLocaleDateString()}`;
+};
+
+// Save a finished analysis to the active profile and return the stored record
+export const saveAnalysis = async (
+  result: AnalysisResult,
+  details: { title?: string; thumbnail?: string; contextText?: string } = {}
+): Promise<AnalysisRecord> => {
+  const record: AnalysisRecord = {
+    id: createId(),
+    title: details.title?.trim() || getDefaultTitle(result.timestamp),
+    createdAt: result.timestamp,
+    thumbnail: details.thumbnail,
+    contextText: details.contextText,
+    profileId: getActiveProfileId(),
+    result
+  };
+
+  const stored = await seal(record);
+  await withStore('readwrite', store => store.put(stored));
+  return record;
+};
+
+// A profile's saved analyses, newest first
+export const listAnalyses = async (profileId: string = getActiveProfileId()): Promise<AnalysisRecord[]> => {
+  const records = await withStore<StoredRecord[]>('readonly', store => store.getAll());
+  const matching = records.filter(record => getRecordProfileId(record) === profileId);
+  return (await Promise.all(matching.map(unseal))).sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Every saved analysis of every profile
+export const listAllAnalyses = async (): Promise<AnalysisRecord[]> => {
+  const records = await withStore<StoredRecord[]>('readonly', store => store.getAll());
+  return Promise.all(records.map(unseal));
+};
+
+export const getAnalysis = async (id: string): Promise<AnalysisRecord | undefined> => {
+  const stored = await withStore<StoredRecord | undefined>('readonly', store => store.get(id));
+  return stored ? unseal(stored) : undefined;
+};
+
+// Write records as they are, encrypted or not depending on whether encryption is on now
+export const rewriteAnalyses = async (records: AnalysisRecord[]): Promise<void> => {
+  for (const record of records) {
+    const stored = await seal(record);
+    await withStore('readwrite', store => store.put(stored));
+  }
+};
+
+// Delete the whole history database
+export const deleteHistoryDatabase = async (): Promise<void> => {
+  if (databasePromise) {
+    (await databasePromise).close();
+    databasePromise = null;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Other tabs still have it open, it's deleted once they close
+    request.onblocked = () => resolve();
+  });
+};
+
+export const renameAnalysis = async (id: string, title: string): Promise<void> => {
+  const record = await getAnalysis(id);
+  if (!record) {
+    throw new Error('Analysis not found');
+  }
+
+  const stored = await seal({ ...record, title: title.trim() || record.title });
+  await withStore('readwrite', store => store.put(stored));
+};
+
+export const deleteAnalysis = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Delete every analysis of a profile
+export const deleteProfileAnalyses = async (profileId: string): Promise<void> => {
+  const records = await listAnalyses(profileId);
+  await Promise.all(records.map(record => deleteAnalysis(record.id)));
+};
+
+// Case-insensitive search over titles, context, analysis text and biomarker names
+export const searchAnalyses = (records: AnalysisRecord[], query: string): AnalysisRecord[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return records;
+  }
+
+  return records.filter(record => [
+    record.title,
+    record.contextText || '',
+    record.result.text,
+    ...record.result.biomarkers.map(biomarker => biomarker.name)
+  ].some(field => field.toLowerCase().includes(needle)));
+};
@@ -0,0 +1,38 @@
+'use client';
+
+import { AnalysisRecord, HouseholdProfile } from '../types';
+import { deleteProfileAnalyses, listAnalyses } from './history';
+import { getHouseholdProfiles, removeHouseholdProfile } from './settings';
+
+export interface ProfileExport {
+  format: 'bloodq-profile';
+  version: 1;
+  exportedAt: number;
+  profile: HouseholdProfile;
+  analyses: AnalysisRecord[];
+}
+
+// Everything stored for one profile, as a JSON file
+export const exportHouseholdProfile = async (id: string): Promise<Blob> => {
+  const profile = getHouseholdProfiles().find(profile => profile.id === id);
+  if (!profile) {
+    throw new Error('Profile not found');
+  }
+
+  const data: ProfileExport = {
+    format: 'bloodq-profile',
+    version: 1,
+    exportedAt: Date.now(),
+    profile,
+    analyses: await listAnalyses(id)
+  };
+
+  return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+};
+
+// Remove a profile together with its saved analyses
+export const deleteHouseholdProfile = async (id: string): Promise<void> => {
+  // Throws for the last profile, before anything is deleted
+  removeHouseholdProfile(id);
+  await deleteProfileAnalyses(id);
+};
@@ -0,0 +1,41 @@
+'use client';
+
+// Load a data URL into an image element
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+};
+
+// Draw an image scaled so its longest side fits maxSize and encode it as JPEG
+const encodeScaled = (image: HTMLImageElement, maxSize: number, quality: number): string => {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+// Downscale an image so its longest side fits maxSize, smaller images are returned unchanged
+export const resizeImage = async (dataUrl: string, maxSize: number): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  if (Math.max(image.width, image.height) <= maxSize) {
+    return dataUrl;
+  }
+  return encodeScaled(image, maxSize, 0.85);
+};
+
+// Downscale an image into a small JPEG for lists and previews
+export const createThumbnail = async (dataUrl: string, maxSize = 240): Promise<string> => {
+  return encodeScaled(await loadImage(dataUrl), maxSize, 0.7);
+};
@@ -0,0 +1,24 @@
+// LOINC codes for common blood tests, used when exporting results to other health tools.
+// The codes live with the rest of each test's data in the analyte knowledge base.
+
+import { findAnalyte } from './analytes';
+import { getUnitDimension } from './units';
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+
+export interface LoincCode {
+  code: string;
+  display?: string;
+}
+
+// The LOINC code for a test as named on the report, picking the variant that matches its unit
+export const findLoincCode = (name: string, unit?: string): LoincCode | undefined => {
+  const loinc = findAnalyte(name)?.loinc;
+  if (!loinc) {
+    return undefined;
+  }
+
+  const dimension = getUnitDimension(unit);
+  const code = (dimension === 'molar' && loinc.molar) || (dimension === 'percent' && loinc.percent) || loinc.code;
+  return code === loinc.code ? { code, display: loinc.display } : { code };
+};
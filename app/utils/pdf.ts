@@ -0,0 +1,92 @@
+'use client';
+
+import { PageTextItem, ReportPage } from '../types';
+
+// Render scale for PDF pages, 2x keeps small print legible for the vision models
+const RENDER_SCALE = 2;
+// Output quality for the rendered pages
+const JPEG_QUALITY = 0.85;
+
+export interface PdfPage {
+  image: string; // JPEG data URL
+  text: string; // text layer, empty for scanned pages
+  textItems: PageTextItem[]; // where each piece of text sits on the image
+}
+
+export const isPdfFile = (file: File): boolean => {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+};
+
+// pdfjs touches browser globals on import, so it's loaded lazily on the client
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.min.mjs',
+    import.meta.url
+  ).toString();
+  return pdfjs;
+};
+
+// Rasterize every page of a PDF and extract its text layer when present
+export const readPdf = async (file: File): Promise<PdfPage[]> => {
+  const pdfjs = await loadPdfjs();
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+
+  const pages: PdfPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        throw new Error('Canvas is not supported in this browser');
+      }
+
+      await page.render({ canvasContext: context, viewport }).promise;
+
+      const textContent = await page.getTextContent();
+      const text = textContent.items
+        .map(item => ('str' in item ? item.str : ''))
+        .join(' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      // Map each text run from PDF space onto the rendered image, as fractions of its size
+      const textItems: PageTextItem[] = [];
+      for (const item of textContent.items) {
+        if (!('str' in item) || !item.str.trim()) continue;
+        const [, , c, d, x, baseline] = pdfjs.Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(c, d);
+        textItems.push({
+          text: item.str,
+          x: x / viewport.width,
+          y: (baseline - fontHeight) / viewport.height,
+          width: (item.width * viewport.scale) / viewport.width,
+          height: fontHeight / viewport.height
+        });
+      }
+
+      pages.push({ image: canvas.toDataURL('image/jpeg', JPEG_QUALITY), text, textItems });
+
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
+
+// Combine the text layers of uploaded pages, labelled with the page they belong to
+export const getPagesText = (pages: ReportPage[]): string | undefined => {
+  const text = pages
+    .map((page, index) => page.text ? `Page ${index + 1}:\n${page.text}` : '')
+    .filter(Boolean)
+    .join('\n\n');
+  return text || undefined;
+};
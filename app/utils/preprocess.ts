@@ -0,0 +1,268 @@
+'use client';
+
+// Largest side kept after preprocessing, each provider's own limit is applied when sending
+const MAX_IMAGE_SIZE = 3072;
+// Longest side of the small grayscale copy used to find the page and its skew
+const ANALYSIS_SIZE = 600;
+// Output quality, matches the rendered PDF pages
+const JPEG_QUALITY = 0.85;
+// Skew angles tried when straightening, in degrees
+const MAX_SKEW = 10;
+const SKEW_STEP = 0.25;
+// Dark pixels sampled for the skew search, keeps it fast on busy pages
+const MAX_SKEW_SAMPLES = 40000;
+
+export interface PreprocessedImage {
+  image: string; // JPEG data URL
+  adjustments: string[]; // what was changed, shown next to the before/after preview
+}
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+  return { canvas, context };
+};
+
+// Read the EXIF orientation tag of a JPEG, 1 means upright or unknown
+const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== 0xFFD8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00) return 1;
+
+      // APP1 segment starting with "Exif"
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const directory = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(directory, littleEndian);
+        for (let i = 0; i < entries; i++) {
+          const entry = directory + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            return view.getUint16(entry + 8, littleEndian);
+          }
+        }
+        return 1;
+      }
+
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata
+  }
+  return 1;
+};
+
+// Otsu's method: the gray level that best separates ink from paper
+const findThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  let total = 0;
+  histogram.forEach((count, level) => total += count * level);
+
+  let backgroundSum = 0;
+  let backgroundWeight = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    backgroundWeight += histogram[level];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = gray.length - backgroundWeight;
+    if (foregroundWeight === 0) break;
+
+    backgroundSum += level * histogram[level];
+    const backgroundMean = backgroundSum / backgroundWeight;
+    const foregroundMean = (total - backgroundSum) / foregroundWeight;
+    const variance = backgroundWeight * foregroundWeight * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+// Luminance of every pixel
+const toGray = (data: Uint8ClampedArray): Uint8Array => {
+  const gray = new Uint8Array(data.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114);
+  }
+  return gray;
+};
+
+// The paper is the bright area; rows and columns that are mostly bright belong to it
+const findPage = (gray: Uint8Array, width: number, height: number, threshold: number): Box | null => {
+  const rowBright = new Array<number>(height).fill(0);
+  const columnBright = new Array<number>(width).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] > threshold) {
+        rowBright[y]++;
+        columnBright[x]++;
+      }
+    }
+  }
+
+  const rows = rowBright.map((count, y) => count > width / 2 ? y : -1).filter(y => y >= 0);
+  const columns = columnBright.map((count, x) => count > height / 2 ? x : -1).filter(x => x >= 0);
+  if (rows.length === 0 || columns.length === 0) return null;
+
+  const box = {
+    x: columns[0],
+    y: rows[0],
+    width: columns[columns.length - 1] - columns[0] + 1,
+    height: rows[rows.length - 1] - rows[0] + 1
+  };
+
+  // Only crop when there is real background around a plausible page
+  const coverage = (box.width * box.height) / (width * height);
+  return coverage > 0.3 && coverage < 0.9 ? box : null;
+};
+
+// Projection profile: text lines give the sharpest row histogram when rotated level
+const findSkew = (gray: Uint8Array, width: number, threshold: number, area: Box): number => {
+  const points: [number, number][] = [];
+  for (let y = area.y; y < area.y + area.height; y++) {
+    for (let x = area.x; x < area.x + area.width; x++) {
+      if (gray[y * width + x] <= threshold) {
+        points.push([x - area.x, y - area.y]);
+      }
+    }
+  }
+  if (points.length < 100) return 0;
+
+  const step = Math.ceil(points.length / MAX_SKEW_SAMPLES);
+  const sample = points.filter((_, index) => index % step === 0);
+  const diagonal = Math.ceil(Math.hypot(area.width, area.height));
+
+  let bestAngle = 0;
+  let bestScore = -1;
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Array<number>(diagonal * 2).fill(0);
+    for (const [x, y] of sample) {
+      rows[Math.round(y * cos - x * sin) + diagonal]++;
+    }
+    const score = rows.reduce((sum, count) => sum + count * count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+};
+
+// Stretch the levels between the darkest and brightest 1% to the full range
+const enhanceContrast = (context: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const imageData = context.getImageData(0, 0, width, height);
+  const gray = toGray(imageData.data);
+
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+  const cutoff = gray.length * 0.01;
+  let low = 0;
+  for (let count = 0; low < 255 && count + histogram[low] <= cutoff; low++) count += histogram[low];
+  let high = 255;
+  for (let count = 0; high > 0 && count + histogram[high] <= cutoff; high--) count += histogram[high];
+
+  // Already uses most of the range, or too flat to stretch safely
+  if (high - low > 220 || high - low < 16) return false;
+
+  const levels = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) {
+    levels[level] = ((level - low) * 255) / (high - low);
+  }
+  const data = imageData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = levels[data[i]];
+    data[i + 1] = levels[data[i + 1]];
+    data[i + 2] = levels[data[i + 2]];
+  }
+  context.putImageData(imageData, 0, 0);
+  return true;
+};
+
+// Turn a phone photo or scan into an upright, cropped, straightened and compressed page
+export const preprocessImage = async (file: Blob): Promise<PreprocessedImage> => {
+  const adjustments: string[] = [];
+
+  // Decoding applies the EXIF orientation, re-encoding drops the tag so every provider sees it upright
+  if (readExifOrientation(await file.slice(0, 128 * 1024).arrayBuffer()) > 1) {
+    adjustments.push('Rotated upright');
+  }
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+
+  try {
+    // Find the page and its skew on a small grayscale copy
+    const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(bitmap.width, bitmap.height));
+    const analysisWidth = Math.max(1, Math.round(bitmap.width * analysisScale));
+    const analysisHeight = Math.max(1, Math.round(bitmap.height * analysisScale));
+    const analysis = createCanvas(analysisWidth, analysisHeight);
+    analysis.context.drawImage(bitmap, 0, 0, analysisWidth, analysisHeight);
+    const gray = toGray(analysis.context.getImageData(0, 0, analysisWidth, analysisHeight).data);
+    const threshold = findThreshold(gray);
+
+    const page = findPage(gray, analysisWidth, analysisHeight, threshold);
+    if (page) {
+      adjustments.push('Cropped to the page');
+    }
+    const area = page || { x: 0, y: 0, width: analysisWidth, height: analysisHeight };
+
+    const skew = findSkew(gray, analysisWidth, threshold, area);
+    if (Math.abs(skew) >= 0.5) {
+      adjustments.push(`Straightened by ${Math.abs(skew).toFixed(1)}°`);
+    }
+
+    // Render the cropped area at full resolution, capped at MAX_IMAGE_SIZE
+    const crop = {
+      x: area.x / analysisScale,
+      y: area.y / analysisScale,
+      width: area.width / analysisScale,
+      height: area.height / analysisScale
+    };
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(crop.width, crop.height));
+    const width = Math.round(crop.width * scale);
+    const height = Math.round(crop.height * scale);
+    if (scale < 1) {
+      adjustments.push(`Resized to ${width}×${height}`);
+    }
+
+    const output = createCanvas(width, height);
+    output.context.fillStyle = '#fff';
+    output.context.fillRect(0, 0, width, height);
+    output.context.translate(width / 2, height / 2);
+    if (Math.abs(skew) >= 0.5) {
+      output.context.rotate((-skew * Math.PI) / 180);
+    }
+    output.context.drawImage(bitmap, crop.x, crop.y, crop.width, crop.height, -width / 2, -height / 2, width, height);
+    output.context.setTransform(1, 0, 0, 1, 0, 0);
+
+    if (enhanceContrast(output.context, width, height)) {
+      adjustments.push('Contrast enhanced');
+    }
+
+    return { image: output.canvas.toDataURL('image/jpeg', JPEG_QUALITY), adjustments };
+  } finally {
+    bitmap.close();
+  }
+};
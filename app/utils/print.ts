@@ -0,0 +1,56 @@
+'use client';
+
+import { ReactNode } from 'react';
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+
+// Images still loading when print() is called come out blank
+const waitForImages = (doc: Document) => {
+  return Promise.all([...doc.images].map(image => image.complete ? undefined : new Promise(resolve => {
+    image.onload = resolve;
+    image.onerror = resolve;
+  })));
+};
+
+// Render the content into a hidden frame and open the browser's print dialog for it,
+// where it can be printed or saved as a PDF. The title is the PDF's default file name.
+export const printDocument = async (title: string, content: ReactNode, styles: string): Promise<void> => {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('aria-hidden', 'true');
+  iframe.style.position = 'fixed';
+  iframe.style.right = '0';
+  iframe.style.bottom = '0';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+  document.body.appendChild(iframe);
+
+  const frameWindow = iframe.contentWindow;
+  const doc = iframe.contentDocument;
+  if (!frameWindow || !doc) {
+    iframe.remove();
+    throw new Error('Printing is not available in this browser');
+  }
+
+  doc.open();
+  doc.write('<!DOCTYPE html><html><head><meta charset="utf-8"></head><body></body></html>');
+  doc.close();
+  doc.title = title;
+
+  const style = doc.createElement('style');
+  style.textContent = styles;
+  doc.head.appendChild(style);
+
+  const container = doc.createElement('div');
+  doc.body.appendChild(container);
+  const root = createRoot(container);
+  flushSync(() => root.render(content));
+  await waitForImages(doc);
+
+  frameWindow.addEventListener('afterprint', () => {
+    root.unmount();
+    iframe.remove();
+  }, { once: true });
+  frameWindow.focus();
+  frameWindow.print();
+};
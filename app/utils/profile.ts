@@ -0,0 +1,108 @@
+import { BiologicalSex, PatientProfile, ProfileField, ProfileNote } from '../types';
+import { splitJsonBlock } from './biomarkers';
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  age: 'Age',
+  sex: 'Sex',
+  pregnant: 'Pregnancy',
+  medications: 'Medications',
+  conditions: 'Conditions'
+};
+
+const PROFILE_FIELDS = Object.keys(PROFILE_FIELD_LABELS) as ProfileField[];
+const SEXES: BiologicalSex[] = ['female', 'male', 'other'];
+
+// JSON schema for the notes on how the profile changed the interpretation
+export const PROFILE_NOTES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string', enum: PROFILE_FIELDS },
+      note: { type: 'string' }
+    },
+    required: ['field', 'note']
+  }
+};
+
+const toList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map(item => item.trim())
+    .filter(Boolean);
+};
+
+// Keep only well-formed, non-empty fields, returns undefined for an empty profile
+export const normalizeProfile = (raw: unknown): PatientProfile | undefined => {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const { age, sex, pregnant, medications, conditions } = raw as Record<string, unknown>;
+  const profile: PatientProfile = {};
+
+  if (typeof age === 'number' && Number.isFinite(age) && age >= 0 && age <= 130) {
+    profile.age = Math.floor(age);
+  }
+  if (SEXES.includes(sex as BiologicalSex)) {
+    profile.sex = sex as BiologicalSex;
+  }
+  if (pregnant === true) {
+    profile.pregnant = true;
+  }
+  const medicationList = toList(medications);
+  if (medicationList.length > 0) {
+    profile.medications = medicationList;
+  }
+  const conditionList = toList(conditions);
+  if (conditionList.length > 0) {
+    profile.conditions = conditionList;
+  }
+
+  return Object.keys(profile).length > 0 ? profile : undefined;
+};
+
+// Format a single field for display and for the prompt
+export const formatProfileField = (profile: PatientProfile, field: ProfileField): string | null => {
+  switch (field) {
+    case 'age':
+      return profile.age !== undefined ? `${profile.age} years` : null;
+    case 'sex':
+      return profile.sex || null;
+    case 'pregnant':
+      return profile.pregnant ? 'pregnant' : null;
+    case 'medications':
+      return profile.medications?.join(', ') || null;
+    case 'conditions':
+      return profile.conditions?.join(', ') || null;
+  }
+};
+
+// Serialize the profile the same way every time, one "- Label: value" line per set field
+export const formatProfile = (profile: PatientProfile): string => {
+  return PROFILE_FIELDS
+    .map(field => {
+      const value = formatProfileField(profile, field);
+      return value ? `- ${PROFILE_FIELD_LABELS[field]}: ${value}` : null;
+    })
+    .filter(Boolean)
+    .join('\n');
+};
+
+// Read the profile notes from the model's JSON block
+export const extractProfileNotes = (output: string): ProfileNote[] => {
+  const { json } = splitJsonBlock(output);
+  const list = json && typeof json === 'object' ? (json as Record<string, unknown>).profileNotes : null;
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  return list.flatMap(raw => {
+    const { field, note } = (raw || {}) as Record<string, unknown>;
+    if (!PROFILE_FIELDS.includes(field as ProfileField) || typeof note !== 'string' || note.trim() === '') {
+      return [];
+    }
+    return [{ field: field as ProfileField, note: note.trim() }];
+  });
+};
@@ -0,0 +1,18 @@
+'use client';
+
+import { LLMProvider, QuotaStatus } from '../types';
+import { isUsingServerKey } from './settings';
+
+// Ask the server how many requests are left on its key, null when the user's own key is used
+export const fetchQuota = async (provider: LLMProvider): Promise<QuotaStatus | null> => {
+  if (!isUsingServerKey(provider)) {
+    return null;
+  }
+
+  const response = await fetch(`/api/quota?provider=${encodeURIComponent(provider)}`, { cache: 'no-store' });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load the remaining quota');
+  }
+  return data as QuotaStatus;
+};
@@ -0,0 +1,119 @@
+'use client';
+
+import { PageRegion, PageTextItem, ReportPage } from '../types';
+import { loadImage } from './image';
+
+// Output quality for redacted pages, matches the rendered PDF pages
+const JPEG_QUALITY = 0.85;
+
+// Share of the page covered by the "cover header" shortcut
+export const HEADER_HEIGHT = 0.15;
+
+// Labels that introduce personal details on lab printouts
+const PII_LABEL_PATTERN = /\b(name|patient|d\.?o\.?b|date of birth|birth ?date|born|age\/sex|mrn|medical record|record (no|number|#)|patient id|account|accession|address|street|city|zip|postcode|phone|tel|e-?mail|ssn|social security|insurance|member id|physician|doctor|dr\.?|ordering|referring|requested by|provider|clinician)\b/i;
+
+// Extra margin around detected text, as a fraction of the page
+const PADDING = 0.004;
+
+export const clampRegion = (region: PageRegion): PageRegion => {
+  const x = Math.max(0, Math.min(1, region.x));
+  const y = Math.max(0, Math.min(1, region.y));
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(1 - x, region.width)),
+    height: Math.max(0, Math.min(1 - y, region.height))
+  };
+};
+
+export const regionsOverlap = (a: PageRegion, b: PageRegion): boolean => {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+};
+
+// Group text runs that sit on the same line
+const groupLines = (items: PageTextItem[]): PageTextItem[][] => {
+  const lines: PageTextItem[][] = [];
+  const sorted = [...items].sort((a, b) => a.y - b.y || a.x - b.x);
+
+  for (const item of sorted) {
+    const center = item.y + item.height / 2;
+    const line = lines.find(candidate => {
+      const first = candidate[0];
+      return Math.abs(first.y + first.height / 2 - center) < Math.max(first.height, item.height) / 2;
+    });
+    if (line) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  return lines;
+};
+
+// Find lines of the text layer that carry personal details and cover each of them
+export const detectPersonalDetails = (items: PageTextItem[]): PageRegion[] => {
+  return groupLines(items)
+    .filter(line => PII_LABEL_PATTERN.test(line.map(item => item.text).join(' ')))
+    .map(line => {
+      const left = Math.min(...line.map(item => item.x));
+      const top = Math.min(...line.map(item => item.y));
+      const right = Math.max(...line.map(item => item.x + item.width));
+      const bottom = Math.max(...line.map(item => item.y + item.height));
+      return clampRegion({
+        x: left - PADDING,
+        y: top - PADDING,
+        width: right - left + PADDING * 2,
+        height: bottom - top + PADDING * 2
+      });
+    });
+};
+
+// Black out the regions on a copy of the image
+export const applyRedactions = async (image: string, regions: PageRegion[]): Promise<string> => {
+  const source = await loadImage(image);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  context.drawImage(source, 0, 0);
+  context.fillStyle = '#000';
+  for (const region of regions) {
+    context.fillRect(
+      Math.floor(region.x * canvas.width),
+      Math.floor(region.y * canvas.height),
+      Math.ceil(region.width * canvas.width),
+      Math.ceil(region.height * canvas.height)
+    );
+  }
+
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+// Drop the text under the redacted regions; without positions the whole text layer is dropped
+const redactText = (page: ReportPage): string | undefined => {
+  if (!page.text || !page.redactions?.length) return page.text;
+  if (!page.textItems) return undefined;
+
+  const text = page.textItems
+    .filter(item => !page.redactions!.some(region => regionsOverlap(item, region)))
+    .map(item => item.text)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text || undefined;
+};
+
+// The pages exactly as they are sent to the provider
+export const getTransmittedPages = (pages: ReportPage[]): ReportPage[] => {
+  return pages.map(page => ({
+    id: page.id,
+    image: page.redactions?.length && page.redactedImage ? page.redactedImage : page.image,
+    text: redactText(page)
+  }));
+};
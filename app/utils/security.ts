@@ -0,0 +1,59 @@
+'use client';
+
+import { deleteHistoryDatabase, listAllAnalyses, rewriteAnalyses } from './history';
+import { clearSettings, clearSettingsCache, flushSettings, loadSettings, saveSettings, unlockSettings } from './settings';
+import { disableVault, enableVault, lockVault, unlockVault } from './vault';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Check the passphrase and decrypt the settings
+export const unlock = async (passphrase: string): Promise<void> => {
+  await unlockVault(passphrase);
+  try {
+    await unlockSettings();
+  } catch (error) {
+    lockVault();
+    throw error;
+  }
+};
+
+export const lock = (): void => {
+  clearSettingsCache();
+  lockVault();
+};
+
+// Encrypt the stored settings and history with a new passphrase
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  // Read everything while it is still in plain text
+  const settings = loadSettings();
+  const records = await listAllAnalyses();
+
+  await enableVault(passphrase);
+  saveSettings(settings);
+  await flushSettings();
+  await rewriteAnalyses(records);
+};
+
+// Decrypt everything and store it in plain text again, the vault must be unlocked
+export const disableEncryption = async (): Promise<void> => {
+  const settings = loadSettings();
+  const records = await listAllAnalyses();
+  await flushSettings();
+
+  disableVault();
+  clearSettingsCache();
+  saveSettings(settings);
+  await rewriteAnalyses(records);
+};
+
+// Erase every setting, key and saved analysis from this browser
+export const forgetEverything = async (): Promise<void> => {
+  await flushSettings();
+  disableVault();
+  clearSettings();
+  await deleteHistoryDatabase();
+};
@@ -1,9 +1,15 @@
 'use client';
 
-import { ApiKeys, LLMProvider, UserSettings, UsageLimits } from '../types';
+import { ApiKeys, EncryptedPayload, HouseholdProfile, LLMProvider, PatientProfile, UnitSystem, UserSettings } from '../types';
+import { getProvider, PROVIDER_IDS } from '../providers';
+import { normalizeProfile } from './profile';
+import { decryptJson, encryptJson } from './crypto';
+import { getVaultKey, isVaultEnabled } from './vault';
 
 const SETTINGS_KEY = 'bloodq_user_settings';
-const USAGE_LIMITS_KEY = 'bloodq_usage_limits';
+
+// Id of the profile analyses saved before household profiles belong to
+export const DEFAULT_PROFILE_ID = 'default';
 
 // Default settings
 const defaultSettings: UserSettings = {
@@ -11,21 +17,29 @@ const defaultSettings: UserSettings = {
   preferredProvider: 'gemini'
 };
 
-// Default usage limits
-const defaultUsageLimits: UsageLimits = {
-  processedImages: {
-    count: 0,
-    lastResetTime: Date.now()
-  }
-};
+// With passphrase encryption on, settings are stored as { encrypted } and read from this cache once unlocked
+interface EncryptedSettings {
+  encrypted: EncryptedPayload;
+}
 
-// Usage limit constants
-const MAX_IMAGES_PER_DAY = 2;
-const HOURS_24 = 24 * 60 * 60 * 1000; // = 24 hours in milliseconds
+let settingsCache: UserSettings | null = null;
+// Encrypted writes are async, chained so they land in order
+let pendingWrite: Promise<void> = Promise.resolve();
 
 // Save settings to localStorage
 export const saveSettings = (settings: UserSettings): void => {
   if (typeof window !== 'undefined') {
+    if (isVaultEnabled()) {
+      settingsCache = settings;
+      pendingWrite = pendingWrite
+        .then(async () => {
+          const stored: EncryptedSettings = { encrypted: await encryptJson(getVaultKey(), settings) };
+          localStorage.setItem(SETTINGS_KEY, JSON.stringify(stored));
+        })
+        .catch(error => console.error('Failed to save settings:', error));
+      return;
+    }
+
     try {
       localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
     } catch (error) {
@@ -37,6 +51,10 @@ export const saveSettings = (settings: UserSettings): void => {
 // Load settings from localStorage
 export const loadSettings = (): UserSettings => {
   if (typeof window !== 'undefined') {
+    if (isVaultEnabled()) {
+      return settingsCache || { ...defaultSettings };
+    }
+
     try {
       const savedSettings = localStorage.getItem(SETTINGS_KEY);
       if (savedSettings) {
@@ -49,6 +67,34 @@ export const loadSettings = (): UserSettings => {
   return defaultSettings;
 };
 
+// Decrypt the stored settings into the cache, after the vault was unlocked
+export const unlockSettings = async (): Promise<void> => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) {
+    settingsCache = { ...defaultSettings };
+    return;
+  }
+
+  const parsed = JSON.parse(saved) as UserSettings | EncryptedSettings;
+  settingsCache = 'encrypted' in parsed
+    ? await decryptJson<UserSettings>(getVaultKey(), parsed.encrypted)
+    : parsed;
+};
+
+// Forget the decrypted settings when locking
+export const clearSettingsCache = (): void => {
+  settingsCache = null;
+};
+
+// Wait for encrypted writes to finish
+export const flushSettings = (): Promise<void> => pendingWrite;
+
+// Remove the stored settings entirely
+export const clearSettings = (): void => {
+  settingsCache = null;
+  localStorage.removeItem(SETTINGS_KEY);
+};
+
 // Save API key for a specific provider
 export const saveApiKey = (provider: LLMProvider, apiKey: string): void => {
   const settings = loadSettings();
@@ -65,6 +111,119 @@ export const getApiKey = (provider: LLMProvider): string | undefined => {
   return settings.apiKeys[provider];
 };
 
+// Save the server URL for a provider with a user-configured endpoint
+export const saveBaseUrl = (provider: LLMProvider, baseUrl: string): void => {
+  const settings = loadSettings();
+  settings.baseUrls = {
+    ...settings.baseUrls,
+    [provider]: baseUrl.trim()
+  };
+  saveSettings(settings);
+};
+
+// Get the server URL for a provider
+export const getBaseUrl = (provider: LLMProvider): string | undefined => {
+  const settings = loadSettings();
+  return settings.baseUrls?.[provider] || undefined;
+};
+
+// Save the model name for a provider
+export const saveModel = (provider: LLMProvider, model: string): void => {
+  const settings = loadSettings();
+  settings.models = {
+    ...settings.models,
+    [provider]: model.trim()
+  };
+  saveSettings(settings);
+};
+
+// Get the model name for a provider
+export const getModel = (provider: LLMProvider): string | undefined => {
+  const settings = loadSettings();
+  return settings.models?.[provider] || undefined;
+};
+
+// Check if a provider with a user-configured endpoint has its URL and model set
+export const isProviderConfigured = (provider: LLMProvider): boolean => {
+  const adapter = getProvider(provider);
+  if (!adapter.capabilities.customBaseUrl) {
+    return true;
+  }
+  return getBaseUrl(provider) !== undefined && (getModel(provider) || adapter.defaultModel) !== undefined;
+};
+
+// Household profiles; the first one is created from the settings of a single-user install
+export const getHouseholdProfiles = (): HouseholdProfile[] => {
+  const settings = loadSettings();
+  if (settings.profiles && settings.profiles.length > 0) {
+    return settings.profiles;
+  }
+  return [{ id: DEFAULT_PROFILE_ID, name: 'Me', patient: settings.profile, createdAt: 0 }];
+};
+
+const saveHouseholdProfiles = (profiles: HouseholdProfile[]): void => {
+  const settings = loadSettings();
+  settings.profiles = profiles;
+  delete settings.profile;
+  saveSettings(settings);
+};
+
+// The active profile, falls back to the first one if it was removed
+export const getActiveProfile = (): HouseholdProfile => {
+  const profiles = getHouseholdProfiles();
+  const { activeProfileId } = loadSettings();
+  return profiles.find(profile => profile.id === activeProfileId) || profiles[0];
+};
+
+export const getActiveProfileId = (): string => {
+  return getActiveProfile().id;
+};
+
+export const setActiveProfile = (id: string): void => {
+  const settings = loadSettings();
+  settings.activeProfileId = id;
+  saveSettings(settings);
+};
+
+// Add a profile and return it, it isn't activated
+export const addHouseholdProfile = (name: string): HouseholdProfile => {
+  const profile: HouseholdProfile = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    name: name.trim() || 'New profile',
+    createdAt: Date.now()
+  };
+  saveHouseholdProfiles([...getHouseholdProfiles(), profile]);
+  return profile;
+};
+
+export const renameHouseholdProfile = (id: string, name: string): void => {
+  saveHouseholdProfiles(getHouseholdProfiles().map(profile => (
+    profile.id === id ? { ...profile, name: name.trim() || profile.name } : profile
+  )));
+};
+
+// Remove a profile from the settings, the last one can't be removed
+export const removeHouseholdProfile = (id: string): void => {
+  const profiles = getHouseholdProfiles();
+  if (profiles.length <= 1) {
+    throw new Error('At least one profile is needed');
+  }
+  saveHouseholdProfiles(profiles.filter(profile => profile.id !== id));
+};
+
+// Save the active profile's patient details, empty fields are dropped
+export const saveProfile = (patient?: PatientProfile): void => {
+  const activeId = getActiveProfileId();
+  saveHouseholdProfiles(getHouseholdProfiles().map(profile => (
+    profile.id === activeId ? { ...profile, patient: normalizeProfile(patient) } : profile
+  )));
+};
+
+// Get the active profile's patient details, undefined when nothing is filled in
+export const getProfile = (): PatientProfile | undefined => {
+  return getActiveProfile().patient;
+};
+
 // Set preferred provider
 export const setPreferredProvider = (provider: LLMProvider): void => {
   const settings = loadSettings();
@@ -91,100 +250,56 @@ export const hasProviderApiKey = (provider: LLMProvider): boolean => {
   return apiKey !== undefined && apiKey.trim() !== '';
 };
 
-// Get available providers (ones with API keys)
+// Get available providers (ones with API keys, or a configured endpoint for those that need no key)
 export const getAvailableProviders = (): LLMProvider[] => {
-  const settings = loadSettings();
-  return Object.entries(settings.apiKeys)
-    .filter(([_, value]) => value && value.trim() !== '')
-    .map(([key]) => key as LLMProvider);
+  return PROVIDER_IDS.filter(provider => getProvider(provider).capabilities.customBaseUrl
+    ? isProviderConfigured(provider)
+    : hasProviderApiKey(provider));
 };
 
-// Load usage limits from localStorage
-export const loadUsageLimits = (): UsageLimits => {
-  if (typeof window !== 'undefined') {
-    try {
-      const savedLimits = localStorage.getItem(USAGE_LIMITS_KEY);
-      if (savedLimits) {
-        const limits = JSON.parse(savedLimits) as UsageLimits;
-        
-        // Check if 24 hours have passed since last reset
-        if (Date.now() - limits.processedImages.lastResetTime > HOURS_24) {
-          // Reset the counter if 24 hours have passed
-          const resetLimits: UsageLimits = {
-            processedImages: {
-              count: 0,
-              lastResetTime: Date.now()
-            }
-          };
-          saveUsageLimits(resetLimits);
-          return resetLimits;
-        }
-        
-        return limits;
-      }
-    } catch (error) {
-      console.error('Failed to load usage limits:', error);
-    }
-  }
-  return defaultUsageLimits;
+// Usage limits only protect the server's own API keys
+export const isUsingServerKey = (provider: LLMProvider): boolean => {
+  return getProvider(provider).serverKeyEnv !== undefined && !hasProviderApiKey(provider);
 };
 
-// Save usage limits to localStorage
-export const saveUsageLimits = (limits: UsageLimits): void => {
-  if (typeof window !== 'undefined') {
-    try {
-      localStorage.setItem(USAGE_LIMITS_KEY, JSON.stringify(limits));
-    } catch (error) {
-      console.error('Failed to save usage limits:', error);
-    }
-  }
+export const DEFAULT_MAX_RETRIES = 2;
+
+// Retries per provider on rate limits and server errors
+export const getMaxRetries = (): number => {
+  return loadSettings().maxRetries ?? DEFAULT_MAX_RETRIES;
 };
 
-// Increment the image processing count and check if limit is exceeded
-// Skip limit check if user is using their own API key
-export const trackImageProcessed = (provider: LLMProvider): { success: boolean; remaining: number } => {
-  // If user has their own API key for the selected provider, skip limit check
-  if (hasProviderApiKey(provider)) {
-    return { 
-      success: true, 
-      remaining: MAX_IMAGES_PER_DAY // Just return max as remaining
-    };
-  }
+// Fallbacks only run on the user's own keys or endpoints, never the server's
+export const canFallBackTo = (provider: LLMProvider): boolean => {
+  return getProvider(provider).capabilities.customBaseUrl
+    ? getBaseUrl(provider) !== undefined && isProviderConfigured(provider)
+    : hasProviderApiKey(provider);
+};
 
-  const limits = loadUsageLimits();
-  
-  // Check if limit is already reached
-  if (limits.processedImages.count >= MAX_IMAGES_PER_DAY) {
-    return { 
-      success: false, 
-      remaining: 0 
-    };
-  }
-  
-  // Increment the count and save
-  limits.processedImages.count += 1;
-  saveUsageLimits(limits);
-  
-  return { 
-    success: true, 
-    remaining: MAX_IMAGES_PER_DAY - limits.processedImages.count 
-  };
+// The saved fallback order as chosen in settings, including providers that can't be used right now
+export const getFallbackOrder = (): LLMProvider[] => {
+  return loadSettings().fallbackProviders || [];
 };
 
-// Get remaining image processing count
-// Return max limit if user has their own API key
-export const getRemainingImageCount = (provider: LLMProvider): number => {
-  // If user has their own API key for the selected provider, no limit applies
-  if (hasProviderApiKey(provider)) {
-    return MAX_IMAGES_PER_DAY; // Return the max as "remaining" since there's no limit
-  }
+// Providers to try after the given one fails, in order
+export const getFallbackProviders = (provider: LLMProvider): LLMProvider[] => {
+  return getFallbackOrder().filter(fallback => fallback !== provider && canFallBackTo(fallback));
+};
 
-  const limits = loadUsageLimits();
-  return Math.max(0, MAX_IMAGES_PER_DAY - limits.processedImages.count);
+export const saveRetrySettings = (maxRetries: number, fallbackProviders: LLMProvider[]): void => {
+  const settings = loadSettings();
+  settings.maxRetries = maxRetries;
+  settings.fallbackProviders = fallbackProviders;
+  saveSettings(settings);
 };
 
-// Get when the limit will reset (in milliseconds)
-export const getResetTimeRemaining = (): number => {
-  const limits = loadUsageLimits();
-  return Math.max(0, HOURS_24 - (Date.now() - limits.processedImages.lastResetTime));
-};
\ No newline at end of file
+// Units values are shown in, undefined shows them as reported
+export const getUnitSystem = (): UnitSystem | undefined => {
+  return loadSettings().unitSystem;
+};
+
+export const saveUnitSystem = (unitSystem?: UnitSystem): void => {
+  const settings = loadSettings();
+  settings.unitSystem = unitSystem;
+  saveSettings(settings);
+};
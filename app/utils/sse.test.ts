@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { encodeSSE, readSSE } from './sse';
+
+// A body that delivers the given chunks one read at a time
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+};
+
+const readAll = async (body: ReadableStream<Uint8Array>) => {
+  const events: string[] = [];
+  for await (const data of readSSE(body)) {
+    events.push(data);
+  }
+  return events;
+};
+
+describe('readSSE', () => {
+  it('reads back what encodeSSE wrote', async () => {
+    const events = await readAll(streamOf(encodeSSE({ type: 'chunk', text: 'a' }), encodeSSE({ type: 'done' })));
+    expect(events.map(data => JSON.parse(data))).toEqual([{ type: 'chunk', text: 'a' }, { type: 'done' }]);
+  });
+
+  it('joins events split across reads, including inside a multi-byte character', async () => {
+    const encoded = new TextEncoder().encode('data: µmol/L\n\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoded.slice(0, 8)); // ends halfway through "µ"
+        controller.enqueue(encoded.slice(8));
+        controller.close();
+      }
+    });
+    expect(await readAll(body)).toEqual(['µmol/L']);
+  });
+
+  it('accepts \\r\\n line endings, multi-line data and skips comments', async () => {
+    const events = await readAll(streamOf(': keep-alive\r\n\r\n', 'event: message\r\ndata: one\r\ndata: two\r\n\r\n'));
+    expect(events).toEqual(['one\ntwo']);
+  });
+
+  it('yields a last event without a trailing blank line', async () => {
+    expect(await readAll(streamOf('data: first\n\ndata: last'))).toEqual(['first', 'last']);
+  });
+});
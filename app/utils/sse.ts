@@ -0,0 +1,50 @@
+// Server-sent event helpers shared by the analyze route and the client
+
+// Encode a payload as a single SSE event
+export const encodeSSE = (payload: unknown): string => {
+  return `data: ${JSON.stringify(payload)}\n\n`;
+};
+
+// Join the data lines of an event, ignoring comments and other fields
+const parseEventData = (event: string): string | null => {
+  const lines = event
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''));
+
+  return lines.length > 0 ? lines.join('\n') : null;
+};
+
+// Read an SSE body and yield the data of each event as it arrives
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line, tolerate both \n and \r\n
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = parseEventData(event);
+        if (data !== null) {
+          yield data;
+        }
+      }
+    }
+
+    const data = parseEventData(buffer + decoder.decode());
+    if (data !== null) {
+      yield data;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisRecord, Biomarker } from '../types';
+import { buildTrends, toNumber } from './trends';
+
+const recordWith = (id: string, createdAt: number, biomarker: Biomarker): AnalysisRecord => ({
+  id,
+  title: `Checkup ${id}`,
+  createdAt,
+  result: { text: '', biomarkers: [biomarker], timestamp: createdAt }
+});
+
+describe('toNumber', () => {
+  it('reads qualifiers, decimal commas and thousands separators', () => {
+    expect(toNumber('< 0,5')).toBe(0.5);
+    expect(toNumber('250,000')).toBe(250000);
+    expect(toNumber('negative')).toBeNull();
+  });
+});
+
+describe('buildTrends', () => {
+  it('converts values and ranges from other units into the trend unit', () => {
+    const [trend] = buildTrends([
+      recordWith('1', 1, { name: 'Glucose', value: 90, unit: 'mg/dL', referenceRange: { low: 70, high: 99 }, flag: 'normal' }),
+      recordWith('2', 2, { name: 'Glucose', value: '5,5', unit: 'mmol/L', referenceRange: { low: 3.9, high: 5.5 }, flag: 'normal' })
+    ], 'si');
+
+    expect(trend.unit).toBe('mmol/L');
+    expect(trend.points.map(point => point.referenceRange)).toEqual([{ low: 3.89, high: 5.5 }, { low: 3.9, high: 5.5 }]);
+    expect(trend.points[1].value).toBe(5.5);
+  });
+});
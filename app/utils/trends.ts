@@ -0,0 +1,84 @@
+import { AnalysisRecord, Biomarker, BiomarkerTrend, TrendPoint, UnitSystem } from '../types';
+import { findAnalyte, getAnalyteKey } from './analytes';
+import { parseNumber } from './biomarkers';
+import { convertRange } from './conversion';
+import { canonicalizeUnit, convertUnit } from './units';
+
+export const toNumber = (value: number | string): number | null => {
+  if (typeof value === 'number') return value;
+  // Accept "5,4", "250,000" and values with a qualifier like "< 0.5"
+  const parsed = parseNumber(value.replace(/^[<>≤≥=\s]+/, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// The unit most measurements were reported in, used as the trend's unit
+const pickUnit = (entries: { biomarker: Biomarker }[]): string => {
+  const counts = new Map<string, number>();
+  entries.forEach(({ biomarker }) => {
+    const unit = canonicalizeUnit(biomarker.unit);
+    counts.set(unit, (counts.get(unit) || 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+// Build a trend for every numeric biomarker across the saved analyses, in the unit system's units when one is given
+export const buildTrends = (records: AnalysisRecord[], system?: UnitSystem): BiomarkerTrend[] => {
+  const groups = new Map<string, { record: AnalysisRecord; biomarker: Biomarker }[]>();
+
+  records.forEach(record => {
+    record.result.biomarkers.forEach(biomarker => {
+      if (toNumber(biomarker.value) === null) return;
+
+      const key = getAnalyteKey(biomarker.name);
+      groups.set(key, [...(groups.get(key) || []), { record, biomarker }]);
+    });
+  });
+
+  const trends: BiomarkerTrend[] = [];
+
+  groups.forEach((entries, key) => {
+    // Known tests convert between mass and molar units too, so reports from labs in different countries line up
+    const analyte = findAnalyte(entries[0].biomarker.name);
+    const unit = (system && analyte?.units?.[system]) || pickUnit(entries);
+    const points: TrendPoint[] = [];
+    const skipped: TrendPoint[] = [];
+
+    entries.forEach(({ record, biomarker }) => {
+      const rawValue = toNumber(biomarker.value) as number;
+      const sourceUnit = canonicalizeUnit(biomarker.unit);
+      const value = convertUnit(rawValue, sourceUnit, unit, analyte?.molarMass);
+
+      const point: TrendPoint = {
+        recordId: record.id,
+        recordTitle: record.title,
+        timestamp: record.createdAt,
+        value: value ?? rawValue,
+        flag: biomarker.flag,
+        // Ranges already in the trend's unit keep their printed precision
+        referenceRange: value !== null && sourceUnit !== unit
+          ? convertRange(biomarker.referenceRange, sourceUnit, unit, analyte?.molarMass)
+          : biomarker.referenceRange,
+        originalValue: biomarker.value,
+        originalUnit: biomarker.unit
+      };
+
+      (value !== null ? points : skipped).push(point);
+    });
+
+    points.sort((a, b) => a.timestamp - b.timestamp);
+
+    // Name the trend after its most recent measurement
+    const latest = entries.reduce((a, b) => (b.record.createdAt > a.record.createdAt ? b : a));
+
+    trends.push({
+      key,
+      name: latest.biomarker.name,
+      unit,
+      points,
+      skipped
+    });
+  });
+
+  // Biomarkers with the longest history first
+  return trends.sort((a, b) => b.points.length - a.points.length || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeUnit, convertUnit, fromUcum, getUnitDimension, roundConverted, toUcum } from './units';
+
+describe('canonicalizeUnit', () => {
+  it('maps lab spellings onto one display form', () => {
+    expect(canonicalizeUnit('mg/dl')).toBe('mg/dL');
+    expect(canonicalizeUnit('K/uL')).toBe('10^3/µL');
+    expect(canonicalizeUnit('x10E9/L')).toBe('10^9/L');
+    expect(canonicalizeUnit('μmol/l')).toBe('µmol/L');
+    expect(canonicalizeUnit('µIU/mL')).toBe('mIU/L');
+  });
+
+  it('only trims units it does not know', () => {
+    expect(canonicalizeUnit(' fL ')).toBe('fL');
+    expect(canonicalizeUnit(undefined)).toBe('');
+  });
+});
+
+describe('convertUnit', () => {
+  it('converts within a dimension without an analyte', () => {
+    expect(convertUnit(14, 'g/dL', 'g/L')).toBeCloseTo(140);
+    expect(convertUnit(250, 'K/uL', '10^9/L')).toBeCloseTo(250);
+    expect(convertUnit(250000, '/µL', '10^9/L')).toBeCloseTo(250);
+  });
+
+  it('needs the molar mass between mass and molar units', () => {
+    expect(convertUnit(100, 'mg/dL', 'mmol/L')).toBeNull();
+    expect(convertUnit(100, 'mg/dL', 'mmol/L', 180.16)).toBeCloseTo(5.5506, 4);
+    expect(convertUnit(5.5, 'mmol/L', 'mg/dL', 180.16)).toBeCloseTo(99.088, 3);
+  });
+
+  it('leaves a value in the same unit alone, even outside the table', () => {
+    expect(convertUnit(90, 'fl', 'fL')).toBe(90);
+  });
+
+  it('refuses units of different dimensions', () => {
+    expect(convertUnit(5, '%', 'g/L')).toBeNull();
+    expect(convertUnit(5, 'fL', 'g/L')).toBeNull();
+  });
+});
+
+describe('roundConverted', () => {
+  it('keeps three significant digits below 100 and whole numbers above', () => {
+    expect(roundConverted(5.5506)).toBe(5.55);
+    expect(roundConverted(0.012345)).toBe(0.0123);
+    expect(roundConverted(135.4)).toBe(135);
+  });
+});
+
+describe('UCUM codes', () => {
+  it('writes known units as UCUM', () => {
+    expect(toUcum('µmol/L')).toBe('umol/L');
+    expect(toUcum('10^9/L')).toBe('10*9/L');
+    expect(toUcum('mIU/L')).toBe('m[IU]/L');
+    expect(toUcum('fL')).toBeUndefined();
+  });
+
+  it('reads UCUM codes back into display units', () => {
+    expect(fromUcum('umol/L')).toBe('µmol/L');
+    expect(fromUcum('10*9/L')).toBe('10^9/L');
+    expect(fromUcum('m[IU]/L')).toBe('mIU/L');
+  });
+
+  it('knows the dimension of a unit', () => {
+    expect(getUnitDimension('mmol/L')).toBe('molar');
+    expect(getUnitDimension('%')).toBe('percent');
+    expect(getUnitDimension('fL')).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+// Unit normalization for lab values.
+// Conversions within a dimension don't depend on the analyte (mg/dL <-> g/L, 10^9/L <-> K/uL, ...);
+// between mass and molar units they need the analyte's molar mass.
+
+export type Dimension = 'mass' | 'molar' | 'count' | 'activity' | 'percent';
+
+interface UnitDefinition {
+  canonical: string; // how the unit is displayed
+  dimension: Dimension;
+  factor: number; // multiplier to the dimension's base unit
+}
+
+// Base units: g/L (mass), mol/L (molar), per L (count), U/L (activity), % (percent)
+const UNITS: UnitDefinition[] = [
+  { canonical: 'g/L', dimension: 'mass', factor: 1 },
+  { canonical: 'g/dL', dimension: 'mass', factor: 10 },
+  { canonical: 'mg/dL', dimension: 'mass', factor: 0.01 },
+  { canonical: 'mg/L', dimension: 'mass', factor: 0.001 },
+  { canonical: 'µg/dL', dimension: 'mass', factor: 1e-5 },
+  { canonical: 'µg/L', dimension: 'mass', factor: 1e-6 },
+  { canonical: 'ng/mL', dimension: 'mass', factor: 1e-6 },
+  { canonical: 'ng/dL', dimension: 'mass', factor: 1e-8 },
+  { canonical: 'pg/mL', dimension: 'mass', factor: 1e-9 },
+  { canonical: 'mol/L', dimension: 'molar', factor: 1 },
+  { canonical: 'mmol/L', dimension: 'molar', factor: 1e-3 },
+  { canonical: 'µmol/L', dimension: 'molar', factor: 1e-6 },
+  { canonical: 'nmol/L', dimension: 'molar', factor: 1e-9 },
+  { canonical: 'pmol/L', dimension: 'molar', factor: 1e-12 },
+  { canonical: '10^12/L', dimension: 'count', factor: 1e12 },
+  { canonical: '10^9/L', dimension: 'count', factor: 1e9 },
+  { canonical: '10^6/µL', dimension: 'count', factor: 1e12 },
+  { canonical: '10^3/µL', dimension: 'count', factor: 1e9 },
+  { canonical: '/µL', dimension: 'count', factor: 1e6 },
+  { canonical: 'U/L', dimension: 'activity', factor: 1 },
+  { canonical: 'mIU/L', dimension: 'activity', factor: 1e-3 },
+  { canonical: '%', dimension: 'percent', factor: 1 }
+];
+
+// Spellings labs use for the same unit, keyed by their normalized form
+const ALIASES: Record<string, string> = {
+  'ug/dl': 'µg/dL',
+  'mcg/dl': 'µg/dL',
+  'ug/l': 'µg/L',
+  'mcg/l': 'µg/L',
+  'umol/l': 'µmol/L',
+  'mcmol/l': 'µmol/L',
+  'x10^12/l': '10^12/L',
+  'x10e12/l': '10^12/L',
+  '10e12/l': '10^12/L',
+  't/l': '10^12/L',
+  'x10^9/l': '10^9/L',
+  'x10e9/l': '10^9/L',
+  '10e9/l': '10^9/L',
+  'x10^6/ul': '10^6/µL',
+  'x10e6/ul': '10^6/µL',
+  '10e6/ul': '10^6/µL',
+  'm/ul': '10^6/µL',
+  'mil/ul': '10^6/µL',
+  'x10^3/ul': '10^3/µL',
+  'x10e3/ul': '10^3/µL',
+  '10e3/ul': '10^3/µL',
+  'k/ul': '10^3/µL',
+  'thou/ul': '10^3/µL',
+  '/ul': '/µL',
+  'cells/ul': '/µL',
+  'iu/l': 'U/L',
+  'u/l': 'U/L',
+  'miu/ml': 'U/L',
+  'uiu/ml': 'mIU/L',
+  'mu/l': 'mIU/L',
+  'percent': '%'
+};
+
+const normalizeSpelling = (unit: string) => {
+  return unit
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/μ/g, 'µ') // Greek mu to micro sign
+    .replace(/²/g, '2')
+    .replace(/µ/g, 'u')
+    .replace(/\*/g, '^')
+    .replace(/×/g, 'x');
+};
+
+const UNIT_LOOKUP: Record<string, UnitDefinition> = {};
+UNITS.forEach(unit => {
+  UNIT_LOOKUP[normalizeSpelling(unit.canonical)] = unit;
+});
+Object.entries(ALIASES).forEach(([alias, canonical]) => {
+  const definition = UNIT_LOOKUP[normalizeSpelling(canonical)];
+  if (definition) {
+    UNIT_LOOKUP[alias] = definition;
+  }
+});
+
+const findUnit = (unit: string): UnitDefinition | undefined => {
+  return UNIT_LOOKUP[normalizeSpelling(unit)];
+};
+
+// Kind of quantity a unit measures, undefined for units not in the table
+export const getUnitDimension = (unit?: string): Dimension | undefined => {
+  return unit ? findUnit(unit)?.dimension : undefined;
+};
+
+// Display form of a unit, e.g. "mg/dl" -> "mg/dL", "K/uL" -> "10^3/µL"; unknown units are only trimmed
+export const canonicalizeUnit = (unit?: string): string => {
+  if (!unit) return '';
+  return findUnit(unit)?.canonical || unit.trim();
+};
+
+// Convert a value between two units of the same dimension, or between mass and molar units
+// given the analyte's molar mass in g/mol; null when that isn't possible
+export const convertUnit = (value: number, from: string, to: string, molarMass?: number): number | null => {
+  // Units outside the table still match themselves, e.g. "fl" and "fL"
+  if (normalizeSpelling(from) === normalizeSpelling(to) || canonicalizeUnit(from) === canonicalizeUnit(to)) {
+    return value;
+  }
+
+  const source = findUnit(from);
+  const target = findUnit(to);
+  if (!source || !target) {
+    return null;
+  }
+  if (source.dimension === target.dimension) {
+    return value * source.factor / target.factor;
+  }
+
+  // g/L divided by g/mol is mol/L
+  if (molarMass && source.dimension === 'mass' && target.dimension === 'molar') {
+    return value * source.factor / molarMass / target.factor;
+  }
+  if (molarMass && source.dimension === 'molar' && target.dimension === 'mass') {
+    return value * source.factor * molarMass / target.factor;
+  }
+  return null;
+};
+
+// Three significant digits for a converted value, whole numbers from 100 up, e.g. 5.55 mmol/L or 135 g/L
+export const roundConverted = (value: number): number => {
+  return Math.abs(value) >= 100 ? Math.round(value) : Number(value.toPrecision(3));
+};
+
+// UCUM code of a known unit, e.g. "µmol/L" -> "umol/L", "10^9/L" -> "10*9/L"; undefined for units not in the table
+export const toUcum = (unit?: string): string | undefined => {
+  const definition = unit ? findUnit(unit) : undefined;
+  return definition?.canonical.replace(/\^/g, '*').replace(/µ/g, 'u').replace(/IU/g, '[IU]');
+};
+
+// Display form of a UCUM code; UCUM spellings are read like any other alias
+export const fromUcum = (code: string): string => {
+  return canonicalizeUnit(code.replace(/\[IU\]/g, 'IU'));
+};
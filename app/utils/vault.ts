@@ -0,0 +1,111 @@
+'use client';
+
+import { VaultMeta } from '../types';
+import { decryptJson, deriveKey, encryptJson, fromBase64, PBKDF2_ITERATIONS, randomBytes, toBase64 } from './crypto';
+
+const VAULT_KEY = 'bloodq_vault';
+const CHECK_VALUE = 'bloodq';
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// The derived key only ever lives in memory, locking forgets it
+let vaultKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Be told when the vault is locked, unlocked, turned on or off
+export const onVaultChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const loadVaultMeta = (): VaultMeta | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const saved = localStorage.getItem(VAULT_KEY);
+    return saved ? JSON.parse(saved) as VaultMeta : null;
+  } catch (error) {
+    console.error('Failed to load encryption settings:', error);
+    return null;
+  }
+};
+
+const saveVaultMeta = (meta: VaultMeta | null): void => {
+  if (meta) {
+    localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+  } else {
+    localStorage.removeItem(VAULT_KEY);
+  }
+};
+
+export const isVaultEnabled = (): boolean => loadVaultMeta() !== null;
+
+export const isVaultUnlocked = (): boolean => vaultKey !== null;
+
+// The key for encrypting stored data, throws while locked
+export const getVaultKey = (): CryptoKey => {
+  if (!vaultKey) {
+    throw new Error('Your data is locked, unlock it with your passphrase first');
+  }
+  return vaultKey;
+};
+
+// Derive the key from the passphrase, throws if it is wrong
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const meta = loadVaultMeta();
+  if (!meta) {
+    throw new Error('Encryption is not turned on');
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  try {
+    await decryptJson(key, meta.check);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  vaultKey = key;
+  notify();
+};
+
+export const lockVault = (): void => {
+  vaultKey = null;
+  notify();
+};
+
+// Turn encryption on with a new passphrase and keep it unlocked
+export const enableVault = async (passphrase: string): Promise<void> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(passphrase, salt);
+
+  saveVaultMeta({
+    version: 1,
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    check: await encryptJson(key, CHECK_VALUE),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES
+  });
+  vaultKey = key;
+  notify();
+};
+
+// Turn encryption off, callers must have decrypted the data first
+export const disableVault = (): void => {
+  saveVaultMeta(null);
+  vaultKey = null;
+  notify();
+};
+
+export const getAutoLockMinutes = (): number => {
+  return loadVaultMeta()?.autoLockMinutes || DEFAULT_AUTO_LOCK_MINUTES;
+};
+
+export const setAutoLockMinutes = (minutes: number): void => {
+  const meta = loadVaultMeta();
+  if (meta) {
+    saveVaultMeta({ ...meta, autoLockMinutes: minutes });
+  }
+};
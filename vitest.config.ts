@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // The "@/*" path from tsconfig.json
+    alias: [{ find: /^@\//, replacement: fileURLToPath(new URL('./', import.meta.url)) }]
+  }
+});